@@ -3,7 +3,8 @@
 
 import { ApplicationTokenCredentialsBase } from "./applicationTokenCredentialsBase";
 import { Environment } from "@azure/ms-rest-azure-env";
-import { AuthConstants, TokenAudience } from "../util/authConstants";
+import { TokenAudience } from "../util/authConstants";
+import { createAdalError, TokenCacheError } from "../util/authErrors";
 import { TokenResponse, ErrorResponse, TokenCache } from "adal-node";
 
 export class ApplicationTokenCredentials extends ApplicationTokenCredentialsBase {
@@ -42,29 +43,28 @@ export class ApplicationTokenCredentials extends ApplicationTokenCredentialsBase
    * Tries to get the token from cache initially. If that is unsuccessfull then it tries to get the token from ADAL.
    * @returns A promise that resolves to TokenResponse and rejects with an Error.
    */
-  public async getToken(): Promise<TokenResponse> {
+  public getToken(resource: string | undefined = undefined): Promise<TokenResponse> {
+    return this.shareTokenRequest(resource, () => this._getToken(resource));
+  }
+
+  private async _getToken(resource?: string): Promise<TokenResponse> {
     try {
-      return await this.getTokenFromCache();
+      return await this.getTokenFromCache(undefined, resource);
     } catch (error) {
-      if (
-        error.message &&
-        error.message.startsWith(AuthConstants.SDK_INTERNAL_ERROR)
-      ) {
+      if (error instanceof TokenCacheError) {
         throw error;
       }
-      const resource = this.getActiveDirectoryResourceId();
+      const resourceId = this.getActiveDirectoryResourceId(resource);
       return new Promise((resolve, reject) => {
         this.authContext.acquireTokenWithClientCredentials(
-          resource,
+          resourceId,
           this.clientId,
           this.secret,
           (error: any, tokenResponse: TokenResponse | ErrorResponse) => {
-            if (error) {
-              return reject(error);
-            }
-            if (tokenResponse.error || tokenResponse.errorDescription) {
-              return reject(tokenResponse);
+            if (error || tokenResponse.error || tokenResponse.errorDescription) {
+              return reject(createAdalError(error, tokenResponse));
             }
+            this.logTokenAcquired(resource);
             return resolve(tokenResponse as TokenResponse);
           }
         );
@@ -4,6 +4,7 @@
 import { TokenCredentialsBase } from "./tokenCredentialsBase";
 import { Environment } from "@azure/ms-rest-azure-env";
 import { AuthConstants, TokenAudience } from "../util/authConstants";
+import { TokenCacheError } from "../util/authErrors";
 import { TokenCache, TokenResponse } from "adal-node";
 
 export abstract class ApplicationTokenCredentialsBase extends TokenCredentialsBase {
@@ -29,16 +30,18 @@ export abstract class ApplicationTokenCredentialsBase extends TokenCredentialsBa
     super(clientId, domain, tokenAudience, environment, tokenCache);
   }
 
-  protected async getTokenFromCache(): Promise<TokenResponse> {
+  protected async getTokenFromCache(username?: string, resource?: string): Promise<TokenResponse> {
     // a thin wrapper over the base implementation. try get token from cache, additionaly clean up cache if required.
     try {
-      return await super.getTokenFromCache(undefined);
+      return await super.getTokenFromCache(username, resource);
     } catch (error) {
       // Remove the stale token from the tokencache. ADAL gives the same error message "Entry not found in cache."
       // for entry not being present in the cache and for accessToken being expired in the cache. We do not want the token cache
       // to contain the expired token, we clean it up here.
+      // Only the token for this resource is removed, the tokens cached for other resources are still valid.
       const status = await this.removeInvalidItemsFromCache({
-        _clientId: this.clientId
+        _clientId: this.clientId,
+        resource: this.getActiveDirectoryResourceId(resource)
       });
 
       if (status.result) {
@@ -50,11 +53,12 @@ export abstract class ApplicationTokenCredentialsBase extends TokenCredentialsBa
           ? status.details.message
           : status.details;
 
-      throw new Error(
+      throw new TokenCacheError(
         AuthConstants.SDK_INTERNAL_ERROR +
         " : " +
         "critical failure while removing expired token for service principal from token cache. " +
-        message
+        message,
+        { cause: status.details }
       );
     }
   }
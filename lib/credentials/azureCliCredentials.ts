@@ -1,10 +1,15 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
+import { inspect, InspectOptions } from "util";
 import { Constants as MSRestConstants, WebResource } from "@azure/ms-rest-js";
 import { TokenClientCredentials, TokenResponse } from "./tokenClientCredentials";
 import { LinkedSubscription } from "../subscriptionManagement/subscriptionUtils";
 import { execAz } from "../login";
+import { AzureCliError } from "../util/authErrors";
+import { HostToResourceMap, getResourceForUrl } from "../util/resourceMap";
+import { AuthLogger, logEvent } from "../util/logger";
+import { inspectCredentials, redactCredentials } from "../util/redaction";
 
 interface ParsedToken {
   /**
@@ -71,6 +76,10 @@ export interface AccessTokenOptions {
    * - `az cloud list`
    */
   resource?: string;
+  /**
+   * Receives the log entries of the credentials. Default value is the logger set with `setLogger()`, if any.
+   */
+  logger?: AuthLogger;
 }
 
 /**
@@ -99,12 +108,33 @@ export class AzureCliCredentials implements TokenClientCredentials {
   // tslint:disable-next-line: no-inferrable-types
   resource: string = "https://management.azure.com";
 
+  /**
+   * Maps the host of a request URL to the resource for which the token signing the request is acquired,
+   * see {@link createHostToResourceMap}. Requests to other hosts are signed with a token for `resource`.
+   */
+  hostToResourceMap?: HostToResourceMap;
+
+  /**
+   * Receives the log entries of these credentials. Default value is the logger set with `setLogger()`, if any.
+   */
+  logger?: AuthLogger;
+
   /**
    * The number of seconds within which it is good to renew the token.
    *  A constant set to 270 seconds (4.5 minutes).
    */
   private readonly _tokenRenewalMarginInSeconds: number = 270;
 
+  /**
+   * The access tokens for resources other than `resource`, by resource.
+   */
+  private readonly _otherTokenInfos = new Map<string, CliAccessToken>();
+
+  /**
+   * The pending `az account get-access-token` calls, by subscription and resource.
+   */
+  private readonly _pendingTokenRequests = new Map<string, Promise<CliAccessToken>>();
+
   constructor(
     subscriptionInfo: LinkedSubscription,
     tokenInfo: CliAccessToken,
@@ -117,41 +147,53 @@ export class AzureCliCredentials implements TokenClientCredentials {
 
   /**
    * Tries to get the new token from Azure CLI, if the token has expired or the subscription has
-   * changed else uses the cached accessToken.
+   * changed else uses the cached accessToken. Tokens are cached per resource, and concurrent calls share a single
+   * Azure CLI process.
+   * @param resource - The resource for which the token is requested. Default value is `resource`.
    * @returns The tokenResponse (tokenType and accessToken are the two important properties).
    */
-  public async getToken(): Promise<TokenResponse> {
-    if (this._hasTokenExpired() || this._hasSubscriptionChanged() || this._hasResourceChanged()) {
-      try {
-        // refresh the access token
-        this.tokenInfo = await AzureCliCredentials.getAccessToken(
-          {
-            subscriptionIdOrName: this.subscriptionInfo.id,
-            resource: this.resource
-          }
-        );
-      } catch (err) {
-        throw new Error(
-          `An error occurred while refreshing the new access ` +
-          `token:${err.stderr ? err.stderr : err.message}`
-        );
+  public async getToken(resource: string = this.resource): Promise<TokenResponse> {
+    const isDefaultResource = _normalizeResource(resource) === _normalizeResource(this.resource);
+    let tokenInfo = isDefaultResource ? this.tokenInfo : this._otherTokenInfos.get(_normalizeResource(resource));
+    if (!tokenInfo || this._hasTokenExpired(tokenInfo) || this._hasSubscriptionChanged(tokenInfo) ||
+      this._hasResourceChanged(tokenInfo, resource)) {
+      tokenInfo = await this._refreshAccessToken(resource);
+      if (isDefaultResource) {
+        this.tokenInfo = tokenInfo;
+      } else {
+        this._otherTokenInfos.set(_normalizeResource(resource), tokenInfo);
       }
+    } else {
+      logEvent(this.logger, "verbose", "token.cache", "Returned the cached Azure CLI token.", { resource });
     }
     const result: TokenResponse = {
-      accessToken: this.tokenInfo.accessToken,
-      tokenType: this.tokenInfo.tokenType,
-      expiresOn: this.tokenInfo.expiresOn,
-      tenantId: this.tokenInfo.tenant
+      accessToken: tokenInfo.accessToken,
+      tokenType: tokenInfo.tokenType,
+      expiresOn: tokenInfo.expiresOn,
+      tenantId: tokenInfo.tenant
     };
     return result;
   }
 
   /**
-   * Signs a request with the Authentication header.
+   * Gets a token for the given resource, for example "https://vault.azure.net", for the account logged in to Azure CLI.
+   * @param resource - The resource for which the token is requested.
+   * @returns The tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  public getTokenForResource(resource: string): Promise<TokenResponse> {
+    if (!resource || typeof resource.valueOf() !== "string") {
+      return Promise.reject(new Error("resource must be a non empty string."));
+    }
+    return this.getToken(resource);
+  }
+
+  /**
+   * Signs a request with the Authentication header. The token is acquired for the resource that
+   * the hostToResourceMap gives for the request URL, if any.
    * @param The request to be signed.
    */
   public async signRequest(webResource: WebResource): Promise<WebResource> {
-    const tokenResponse = await this.getToken();
+    const tokenResponse = await this.getToken(getResourceForUrl(webResource.url, this.hostToResourceMap));
     webResource.headers.set(
       MSRestConstants.HeaderConstants.AUTHORIZATION,
       `${tokenResponse.tokenType} ${tokenResponse.accessToken}`
@@ -159,24 +201,66 @@ export class AzureCliCredentials implements TokenClientCredentials {
     return webResource;
   }
 
-  private _hasTokenExpired(): boolean {
+  /**
+   * Gets the properties of the credentials with the access token of `tokenInfo` redacted.
+   */
+  public toJSON(): { [key: string]: any } {
+    return redactCredentials(this);
+  }
+
+  /**
+   * Formats the credentials for `console.log()` and `util.inspect()` from {@link toJSON}.
+   */
+  public [inspect.custom](_depth: number, options: InspectOptions): string {
+    return inspectCredentials(this, options);
+  }
+
+  private _refreshAccessToken(resource: string): Promise<CliAccessToken> {
+    const key = `${this.subscriptionInfo.id} ${_normalizeResource(resource)}`;
+    let tokenRequest = this._pendingTokenRequests.get(key);
+    if (!tokenRequest) {
+      tokenRequest = AzureCliCredentials.getAccessToken(
+        {
+          subscriptionIdOrName: this.subscriptionInfo.id,
+          resource: resource,
+          logger: this.logger
+        }
+      ).then((tokenInfo) => {
+        this._pendingTokenRequests.delete(key);
+        logEvent(this.logger, "info", "token.network", "Acquired a token from the Azure CLI.",
+          { subscription: tokenInfo.subscription, tenant: tokenInfo.tenant, resource });
+        return tokenInfo;
+      }, (err) => {
+        this._pendingTokenRequests.delete(key);
+        throw new AzureCliError(
+          `An error occurred while refreshing the new access ` +
+          `token:${err.stderr ? err.stderr : err.message}`,
+          { cause: err, stderr: err.stderr }
+        );
+      });
+      this._pendingTokenRequests.set(key, tokenRequest);
+    }
+    return tokenRequest;
+  }
+
+  private _hasTokenExpired(tokenInfo: CliAccessToken): boolean {
     let result = true;
     const now = Math.floor(Date.now() / 1000);
-    if (this.tokenInfo.expiresOn &&
-      this.tokenInfo.expiresOn instanceof Date &&
-      Math.floor(this.tokenInfo.expiresOn.getTime() / 1000) - now > this._tokenRenewalMarginInSeconds) {
+    if (tokenInfo.expiresOn &&
+      tokenInfo.expiresOn instanceof Date &&
+      Math.floor(tokenInfo.expiresOn.getTime() / 1000) - now > this._tokenRenewalMarginInSeconds) {
       result = false;
     }
     return result;
   }
 
-  private _hasSubscriptionChanged(): boolean {
-    return this.subscriptionInfo.id !== this.tokenInfo.subscription;
+  private _hasSubscriptionChanged(tokenInfo: CliAccessToken): boolean {
+    return this.subscriptionInfo.id !== tokenInfo.subscription;
   }
 
-  private _parseToken(): ParsedToken {
+  private _parseToken(tokenInfo: CliAccessToken): ParsedToken {
     try {
-      const base64Url: string = this.tokenInfo.accessToken.split(".")[1];
+      const base64Url: string = tokenInfo.accessToken.split(".")[1];
       const base64: string = decodeURIComponent(
         Buffer.from(base64Url, "base64").toString("binary").split("").map((c) => {
           return "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2);
@@ -185,7 +269,7 @@ export class AzureCliCredentials implements TokenClientCredentials {
       return JSON.parse(base64);
     } catch (err) {
       const msg = `An error occurred while parsing the access token: ${err.stack}`;
-      throw new Error(msg);
+      throw new AzureCliError(msg, { cause: err });
     }
   }
 
@@ -198,16 +282,12 @@ export class AzureCliCredentials implements TokenClientCredentials {
         currentResource === "https://management.core.windows.net");
   }
 
-  private _hasResourceChanged(): boolean {
-    const parsedToken: ParsedToken = this._parseToken();
+  private _hasResourceChanged(tokenInfo: CliAccessToken, resource: string): boolean {
+    const parsedToken: ParsedToken = this._parseToken(tokenInfo);
     // normalize the resource string, since it is possible to
     // provide a resource without a trailing slash
-    const currentResource = parsedToken.aud && parsedToken.aud.endsWith("/")
-      ? parsedToken.aud.slice(0, -1)
-      : parsedToken.aud;
-    const newResource = this.resource.endsWith("/")
-      ? this.resource.slice(0, -1)
-      : this.resource;
+    const currentResource = parsedToken.aud && _normalizeResource(parsedToken.aud);
+    const newResource = _normalizeResource(resource);
     const result = this._isAzureResourceManagerEndpoint(newResource, currentResource)
       ? false
       : currentResource !== newResource;
@@ -219,22 +299,25 @@ export class AzureCliCredentials implements TokenClientCredentials {
    * @param options Optional parameters that can be provided to get the access token.
    */
   static async getAccessToken(options: AccessTokenOptions = {}): Promise<CliAccessToken> {
+    if (options.resource && !_isPlainResourceUri(options.resource)) {
+      throw new Error(`The resource "${options.resource}" must be an absolute http(s) URI.`);
+    }
     try {
-      let cmd = "account get-access-token";
+      const args = ["account", "get-access-token"];
       if (options.subscriptionIdOrName) {
-        cmd += ` -s "${options.subscriptionIdOrName}"`;
+        args.push("-s", options.subscriptionIdOrName);
       }
       if (options.resource) {
-        cmd += ` --resource ${options.resource}`;
+        args.push("--resource", options.resource);
       }
-      const result: any = await execAz(cmd);
+      const result: any = await execAz(args, options.logger);
       result.expiresOn = new Date(result.expiresOn);
       return result as CliAccessToken;
     } catch (err) {
       const message =
         `An error occurred while getting credentials from ` +
         `Azure CLI: ${err.stack}`;
-      throw new Error(message);
+      throw new AzureCliError(message, { cause: err, stderr: err.stderr });
     }
   }
 
@@ -248,17 +331,17 @@ export class AzureCliCredentials implements TokenClientCredentials {
       throw new Error("'subscriptionIdOrName' must be a non-empty string.");
     }
     try {
-      let cmd = "account show";
+      const args = ["account", "show"];
       if (subscriptionIdOrName) {
-        cmd += ` -s "${subscriptionIdOrName}"`;
+        args.push("-s", subscriptionIdOrName);
       }
-      const result: LinkedSubscription = await execAz(cmd);
+      const result: LinkedSubscription = await execAz(args);
       return result;
     } catch (err) {
       const message =
         `An error occurred while getting information about the current subscription from ` +
         `Azure CLI: ${err.stack}`;
-      throw new Error(message);
+      throw new AzureCliError(message, { cause: err, stderr: err.stderr });
     }
   }
 
@@ -269,12 +352,12 @@ export class AzureCliCredentials implements TokenClientCredentials {
    */
   static async setDefaultSubscription(subscriptionIdOrName: string): Promise<void> {
     try {
-      await execAz(`account set -s ${subscriptionIdOrName}`);
+      await execAz(["account", "set", "-s", subscriptionIdOrName]);
     } catch (err) {
       const message =
         `An error occurred while setting the current subscription from ` +
         `Azure CLI: ${err.stack}`;
-      throw new Error(message);
+      throw new AzureCliError(message, { cause: err, stderr: err.stderr });
     }
   }
 
@@ -285,14 +368,14 @@ export class AzureCliCredentials implements TokenClientCredentials {
   static async listAllSubscriptions(options: ListAllSubscriptionOptions = {}): Promise<LinkedSubscription[]> {
     let subscriptionList: any[] = [];
     try {
-      let cmd = "account list";
+      const args = ["account", "list"];
       if (options.all) {
-        cmd += " --all";
+        args.push("--all");
       }
       if (options.refresh) {
-        cmd += "--refresh";
+        args.push("--refresh");
       }
-      subscriptionList = await execAz(cmd);
+      subscriptionList = await execAz(args);
       if (subscriptionList && subscriptionList.length) {
         for (const sub of subscriptionList) {
           if (sub.cloudName) {
@@ -306,7 +389,7 @@ export class AzureCliCredentials implements TokenClientCredentials {
       const message =
         `An error occurred while getting a list of all the subscription from ` +
         `Azure CLI: ${err.stack}`;
-      throw new Error(message);
+      throw new AzureCliError(message, { cause: err, stderr: err.stderr });
     }
   }
 
@@ -323,6 +406,23 @@ export class AzureCliCredentials implements TokenClientCredentials {
       AzureCliCredentials.getSubscription(options.subscriptionIdOrName),
       AzureCliCredentials.getAccessToken(options)
     ]);
-    return new AzureCliCredentials(subscriptinInfo, accessToken, options.resource);
+    const creds = new AzureCliCredentials(subscriptinInfo, accessToken, options.resource);
+    creds.logger = options.logger;
+    return creds;
   }
 }
+
+/**
+ * Tells whether a resource is an absolute http(s) URI without characters that a shell would interpret, since the
+ * Azure CLI runs in a shell on Windows.
+ */
+function _isPlainResourceUri(resource: string): boolean {
+  return /^https?:\/\/[\w.-]+(:\d+)?(\/[\w.~\/-]*)?$/i.test(resource);
+}
+
+/**
+ * Removes the trailing slash, since it is possible to provide a resource with or without it.
+ */
+function _normalizeResource(resource: string): string {
+  return resource.endsWith("/") ? resource.slice(0, -1) : resource;
+}
@@ -0,0 +1,182 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { inspect, InspectOptions } from "util";
+import { Constants as MSRestConstants, WebResource } from "@azure/ms-rest-js";
+import { TokenClientCredentials, TokenResponse } from "./tokenClientCredentials";
+import { AggregateAuthenticationError, AuthenticationError, ChainedCredentialFailure } from "../util/authErrors";
+import { HostToResourceMap, getResourceForUrl } from "../util/resourceMap";
+import { inspectCredentials, redactCredentials } from "../util/redaction";
+
+/**
+ * Describes a single entry in the list of credentials tried by {@link ChainedTokenCredentials}.
+ * It can either be a credential object or a function that creates one. Functions are useful for
+ * credentials that need to be created asynchronously (like `AzureCliCredentials.create()`) or whose
+ * constructor throws when the required configuration is not present.
+ */
+export type CredentialSource =
+  | TokenClientCredentials
+  | (() => TokenClientCredentials | Promise<TokenClientCredentials>);
+
+/**
+ * Provides credentials that try a list of credentials in order, until one of them successfully
+ * returns a token. The first credential that succeeds is remembered and used for all subsequent
+ * requests.
+ */
+export class ChainedTokenCredentials implements TokenClientCredentials {
+  /**
+   * The ordered list of credentials that will be tried.
+   */
+  readonly sources: CredentialSource[];
+
+  /**
+   * Maps the host of a request URL to the resource for which the token signing the request is acquired,
+   * see {@link createHostToResourceMap}. Requests to other hosts are signed with a token for the default resource.
+   */
+  public hostToResourceMap?: HostToResourceMap;
+
+  /**
+   * The credential that first returned a token successfully, if any.
+   */
+  private _selectedCredential?: TokenClientCredentials;
+
+  /**
+   * The pending selections of a credential by resource, shared by the concurrent calls of `getToken()`.
+   */
+  private readonly _pendingSelections = new Map<string | undefined, Promise<TokenResponse>>();
+
+  /**
+   * Creates a new ChainedTokenCredentials object.
+   *
+   * @param sources - The credentials (or functions creating the credentials) to be tried, in order.
+   */
+  public constructor(...sources: CredentialSource[]) {
+    if (!sources || !sources.length) {
+      throw new Error("At least one credential must be provided.");
+    }
+    this.sources = sources;
+  }
+
+  /**
+   * The credential that first returned a token successfully. It is `undefined` until `getToken()`
+   * has succeeded at least once.
+   */
+  public get selectedCredential(): TokenClientCredentials | undefined {
+    return this._selectedCredential;
+  }
+
+  /**
+   * Gets the token from the credential that was previously selected. If no credential has been selected
+   * yet, every credential in the chain is tried in order and the first one that succeeds is selected.
+   * Concurrent calls share the pending selection.
+   *
+   * @param resource - The resource for which the token is requested. Default value is the resource each credential was created for.
+   * @returns The tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  public async getToken(resource: string | undefined = undefined): Promise<TokenResponse> {
+    if (this._selectedCredential) {
+      return this._selectedCredential.getToken(resource);
+    }
+
+    let selection = this._pendingSelections.get(resource);
+    if (!selection) {
+      selection = this._selectCredential(resource).then((tokenResponse) => {
+        this._pendingSelections.delete(resource);
+        return tokenResponse;
+      }, (error) => {
+        this._pendingSelections.delete(resource);
+        throw error;
+      });
+      this._pendingSelections.set(resource, selection);
+    }
+    return selection;
+  }
+
+  /**
+   * Tries every credential in the chain in order and selects the first one that returns a token.
+   */
+  private async _selectCredential(resource: string | undefined): Promise<TokenResponse> {
+    const failures: ChainedCredentialFailure[] = [];
+    for (const source of this.sources) {
+      let credential: TokenClientCredentials | undefined;
+      try {
+        credential = typeof source === "function" ? await source() : source;
+        const tokenResponse = await credential.getToken(resource);
+        this._selectedCredential = credential;
+        return tokenResponse;
+      } catch (err) {
+        failures.push({
+          name: _getCredentialName(credential || source),
+          error: err instanceof Error ? err : new AuthenticationError(_describeError(err), { cause: err })
+        });
+      }
+    }
+
+    const details = failures.map((failure) => `- ${failure.name}: ${failure.error.message}`).join("\n");
+    throw new AggregateAuthenticationError(`None of the credentials in the chain could provide a token:\n${details}`, failures);
+  }
+
+  /**
+   * Gets a token for the given resource, for example "https://vault.azure.net", from the selected credential.
+   *
+   * @param resource - The resource for which the token is requested.
+   * @returns The tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  public getTokenForResource(resource: string): Promise<TokenResponse> {
+    if (!resource || typeof resource.valueOf() !== "string") {
+      return Promise.reject(new Error("resource must be a non empty string."));
+    }
+    return this.getToken(resource);
+  }
+
+  /**
+   * Signs a request with the Authentication header. The token is acquired for the resource that
+   * the hostToResourceMap gives for the request URL, if any.
+   *
+   * @param webResource - The WebResource to be signed.
+   */
+  public async signRequest(webResource: WebResource): Promise<WebResource> {
+    const tokenResponse = await this.getToken(getResourceForUrl(webResource.url, this.hostToResourceMap));
+    // ADFS returns the token type in lower case, which some services reject.
+    const tokenType = /^bearer$/i.test(tokenResponse.tokenType) ? "Bearer" : tokenResponse.tokenType;
+    webResource.headers.set(
+      MSRestConstants.HeaderConstants.AUTHORIZATION,
+      `${tokenType} ${tokenResponse.accessToken}`
+    );
+    return webResource;
+  }
+
+  /**
+   * Gets the properties of the credentials. Each source redacts its own secrets.
+   */
+  public toJSON(): { [key: string]: any } {
+    return redactCredentials(this);
+  }
+
+  /**
+   * Formats the credentials for `console.log()` and `util.inspect()` from {@link toJSON}.
+   */
+  public [inspect.custom](_depth: number, options: InspectOptions): string {
+    return inspectCredentials(this, options);
+  }
+}
+
+function _getCredentialName(source: CredentialSource): string {
+  if (typeof source === "function") {
+    return source.name || "anonymous credential factory";
+  }
+  return source.constructor && source.constructor.name ? source.constructor.name : "unknown credential";
+}
+
+function _describeError(err: any): string {
+  if (typeof err === "string") {
+    return err;
+  }
+  if (err && (err.errorDescription || err.error_description)) {
+    return err.errorDescription || err.error_description;
+  }
+  if (err && err.error) {
+    return err.error;
+  }
+  return JSON.stringify(err);
+}
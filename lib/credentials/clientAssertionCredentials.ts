@@ -0,0 +1,234 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as fs from "fs";
+import { promisify } from "util";
+import { DefaultHttpClient, HttpClient, HttpOperationResponse, WebResource } from "@azure/ms-rest-js";
+import { TokenResponse } from "adal-node";
+import { TokenCredentialsBase } from "./tokenCredentialsBase";
+import { AuthenticationError, CredentialUnavailableError, TokenCacheError, createAdalError } from "../util/authErrors";
+import { logEvent } from "../util/logger";
+import { AzureTokenCredentialsOptions } from "../login";
+
+const readFile = promisify(fs.readFile);
+
+const jwtBearerAssertionType = "urn:ietf:params:oauth:client-assertion-type:jwt-bearer";
+
+/**
+ * The number of seconds before the token expires within which a new token is requested.
+ */
+const tokenRefreshMarginInSeconds = 300;
+
+/**
+ * A function that returns the signed JWT used as client assertion, for example a federated token issued by
+ * Kubernetes or GitHub Actions. It is called every time a new access token is requested from Azure Active Directory.
+ */
+export type ClientAssertionProvider = () => string | Promise<string>;
+
+/**
+ * Describes optional parameters for {@link ClientAssertionCredentials}.
+ */
+export interface ClientAssertionCredentialsOptions extends AzureTokenCredentialsOptions {
+  /**
+   * The client responsible for sending HTTP requests to Azure Active Directory.
+   * By default it is Axios-based {@link DefaultHttpClient}.
+   */
+  httpClient?: HttpClient;
+}
+
+/**
+ * Identifies the entries of the token cache holding the tokens of a client and authority for a resource,
+ * using the same metadata as the entries added by adal.
+ */
+interface CacheQuery {
+  _clientId: string;
+  _authority: string;
+  resource: string;
+}
+
+/**
+ * Provides credentials for a service principal that authenticates with a signed JWT (client assertion) instead
+ * of a secret or a certificate, for example the federated token of a workload identity. The tokens are stored in
+ * the `tokenCache` of the credentials.
+ */
+export class ClientAssertionCredentials extends TokenCredentialsBase {
+  private readonly _getAssertion: ClientAssertionProvider;
+  private readonly _httpClient: HttpClient;
+
+  /**
+   * Creates a new ClientAssertionCredentials object.
+   *
+   * @param clientId - The active directory application client id.
+   * @param domain - The domain or tenant id containing this application.
+   * @param clientAssertion - The signed JWT, or a function returning it. The function is called again
+   * whenever a new access token is needed, so that rotated assertions are picked up.
+   * @param options - Object representing optional parameters.
+   */
+  public constructor(
+    clientId: string,
+    domain: string,
+    clientAssertion: string | ClientAssertionProvider,
+    options: ClientAssertionCredentialsOptions = {}
+  ) {
+    if (!clientAssertion || (typeof clientAssertion !== "function" && typeof clientAssertion.valueOf() !== "string")) {
+      throw new Error("clientAssertion must be a non empty string or a function.");
+    }
+    super(clientId, domain, options.tokenAudience, options.environment, options.tokenCache);
+    this._getAssertion = typeof clientAssertion === "function" ? clientAssertion : () => clientAssertion;
+    this._httpClient = options.httpClient || new DefaultHttpClient();
+    this.logger = options.logger;
+  }
+
+  /**
+   * Creates a ClientAssertionCredentials object that reads the assertion from a file, for example the token
+   * projected by Kubernetes into the file named by the environment variable `AZURE_FEDERATED_TOKEN_FILE`.
+   * The file is read again whenever a new access token is needed, since these tokens are rotated periodically.
+   *
+   * @param clientId - The active directory application client id.
+   * @param domain - The domain or tenant id containing this application.
+   * @param tokenFilePath - The path of the file containing the signed JWT.
+   * @param options - Object representing optional parameters.
+   */
+  public static fromFile(
+    clientId: string,
+    domain: string,
+    tokenFilePath: string,
+    options: ClientAssertionCredentialsOptions = {}
+  ): ClientAssertionCredentials {
+    if (!tokenFilePath || typeof tokenFilePath.valueOf() !== "string") {
+      throw new Error("tokenFilePath must be a non empty string.");
+    }
+    return new ClientAssertionCredentials(clientId, domain, () => _readAssertionFile(tokenFilePath), options);
+  }
+
+  /**
+   * Returns the cached token if it does not expire within the next 5 minutes. Otherwise the client assertion
+   * is exchanged for a new token with Azure Active Directory. Tokens are cached per resource, and concurrent calls
+   * share a single token request.
+   *
+   * @param resource - The resource for which the token is requested. Default value is the tokenAudience.
+   * @returns The tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  public getToken(resource: string | undefined = undefined): Promise<TokenResponse> {
+    const resourceId = this.getActiveDirectoryResourceId(resource);
+    return this.shareTokenRequest(resourceId, async () => {
+      const query: CacheQuery = { _clientId: this.clientId, _authority: this.authContext.authority, resource: resourceId };
+      const entries = await this._findCachedTokens(query);
+      const cachedToken = entries.find((entry) =>
+        new Date(entry.expiresOn).getTime() - Date.now() > tokenRefreshMarginInSeconds * 1000);
+      if (cachedToken) {
+        logEvent(this.logger, "verbose", "token.cache", "Got the token from the token cache.",
+          { clientId: this.clientId, domain: this.domain, resource: resourceId });
+        return cachedToken;
+      }
+
+      const tokenResponse = await this._acquireToken(resourceId);
+      await this._replaceCachedTokens(entries, { ...tokenResponse, ...query });
+      return tokenResponse;
+    });
+  }
+
+  private _findCachedTokens(query: CacheQuery): Promise<TokenResponse[]> {
+    return new Promise<TokenResponse[]>((resolve, reject) => {
+      this.tokenCache.find(query, (error: Error, entries: TokenResponse[]) => {
+        if (error) {
+          return reject(new TokenCacheError(`Failed to read the token cache: ${error.message}`, { cause: error }));
+        }
+        resolve(entries || []);
+      });
+    });
+  }
+
+  /**
+   * Replaces the expired tokens of the cache with the new token.
+   */
+  private _replaceCachedTokens(expiredEntries: TokenResponse[], entry: TokenResponse): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.tokenCache.remove(expiredEntries, (removeError: Error) => {
+        if (removeError) {
+          return reject(new TokenCacheError(`Failed to update the token cache: ${removeError.message}`, { cause: removeError }));
+        }
+        this.tokenCache.add([entry], (addError: Error) => {
+          if (addError) {
+            return reject(new TokenCacheError(`Failed to update the token cache: ${addError.message}`, { cause: addError }));
+          }
+          resolve();
+        });
+      });
+    });
+  }
+
+  private async _acquireToken(resource: string): Promise<TokenResponse> {
+    const assertion = await this._getAssertion();
+    if (!assertion || typeof assertion.valueOf() !== "string") {
+      throw new CredentialUnavailableError("The client assertion provider did not return a non empty string.");
+    }
+
+    const url = `${this.environment.activeDirectoryEndpointUrl}${this.domain}/oauth2/token`;
+    const body: { [key: string]: string } = {
+      grant_type: "client_credentials",
+      client_id: this.clientId,
+      client_assertion_type: jwtBearerAssertionType,
+      client_assertion: assertion.trim(),
+      resource
+    };
+    const webResource = new WebResource(url, "POST", Object.keys(body)
+      .map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(body[key])}`)
+      .join("&"));
+    webResource.headers.set("Content-Type", "application/x-www-form-urlencoded; charset=UTF-8");
+
+    let response: HttpOperationResponse;
+    try {
+      response = await this._httpClient.sendRequest(webResource);
+    } catch (err) {
+      throw new AuthenticationError(`Failed to send the token request to "${url}": ${err.message || err}`, { cause: err });
+    }
+
+    const parsedBody = _parseBody(response.bodyAsText);
+    if (response.status !== 200 || !parsedBody || !parsedBody.access_token) {
+      throw createAdalError(
+        new Error(`Get Token request returned http error: ${response.status} and server response: ${response.bodyAsText}`),
+        parsedBody
+      );
+    }
+
+    this.logTokenAcquired(resource);
+    return _convertTokenResponse(parsedBody, resource);
+  }
+}
+
+async function _readAssertionFile(tokenFilePath: string): Promise<string> {
+  try {
+    return await readFile(tokenFilePath, { encoding: "utf8" });
+  } catch (err) {
+    throw new CredentialUnavailableError(`Failed to read the client assertion from the file "${tokenFilePath}": ${err.message}`, { cause: err });
+  }
+}
+
+function _parseBody(bodyAsText: string | null | undefined): any {
+  if (!bodyAsText) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(bodyAsText);
+  } catch (err) {
+    return undefined;
+  }
+}
+
+/**
+ * Converts the snake_case token response of Azure Active Directory to the camelCase TokenResponse of adal.
+ */
+function _convertTokenResponse(body: any, resource: string): TokenResponse {
+  const expiresIn = parseInt(body.expires_in, 10);
+  const expiresOn = body.expires_on
+    ? new Date(parseInt(body.expires_on, 10) * 1000)
+    : new Date(Date.now() + expiresIn * 1000);
+  return {
+    tokenType: body.token_type,
+    expiresIn,
+    expiresOn,
+    resource: body.resource || resource,
+    accessToken: body.access_token
+  };
+}
@@ -0,0 +1,124 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { inspect, InspectOptions } from "util";
+import { Constants as MSRestConstants, WebResource } from "@azure/ms-rest-js";
+import { TokenCredential } from "@azure/core-auth";
+import { TokenClientCredentials, TokenResponse } from "./tokenClientCredentials";
+import { AuthConstants } from "../util/authConstants";
+import { CredentialUnavailableError } from "../util/authErrors";
+import { HostToResourceMap, getResourceForUrl, getScopeFromResource } from "../util/resourceMap";
+import { inspectCredentials, redactCredentials } from "../util/redaction";
+
+/**
+ * Describes optional parameters for {@link CoreAuthTokenCredentials}.
+ */
+export interface CoreAuthTokenCredentialsOptions {
+  /**
+   * The resource for which tokens are requested by default. Default value is "https://management.azure.com/".
+   */
+  resource?: string;
+  /**
+   * Maps the host of a request URL to the resource for which the token signing the request is acquired,
+   * see {@link createHostToResourceMap}.
+   */
+  hostToResourceMap?: HostToResourceMap;
+}
+
+/**
+ * Adapts a `TokenCredential` of `@azure/core-auth`, for example a credential of `@azure/identity`, to the
+ * credentials expected by the clients built on ms-rest-js and by the functions of this package.
+ * The resources are converted to the ".default" scope of the Microsoft identity platform, for example
+ * "https://vault.azure.net" to "https://vault.azure.net/.default".
+ */
+export class CoreAuthTokenCredentials implements TokenClientCredentials {
+  /**
+   * The credential providing the tokens.
+   */
+  readonly tokenCredential: TokenCredential;
+  /**
+   * The resource for which tokens are requested by default.
+   */
+  resource: string;
+  /**
+   * Maps the host of a request URL to the resource for which the token signing the request is acquired.
+   */
+  hostToResourceMap?: HostToResourceMap;
+
+  /**
+   * Creates a new CoreAuthTokenCredentials object.
+   *
+   * @param tokenCredential - The credential providing the tokens.
+   * @param options - Object representing optional parameters.
+   */
+  public constructor(tokenCredential: TokenCredential, options: CoreAuthTokenCredentialsOptions = {}) {
+    if (!tokenCredential || typeof tokenCredential.getToken !== "function") {
+      throw new Error("tokenCredential must be an object with a getToken method.");
+    }
+    this.tokenCredential = tokenCredential;
+    this.resource = options.resource || AuthConstants.RESOURCE_MANAGER_ENDPOINT;
+    this.hostToResourceMap = options.hostToResourceMap;
+  }
+
+  /**
+   * Gets a token for the ".default" scope of the resource from the credential.
+   *
+   * @param resource - The resource for which the token is requested. Default value is `resource`.
+   * @returns The tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  public async getToken(resource: string = this.resource): Promise<TokenResponse> {
+    const scope = getScopeFromResource(resource);
+    const accessToken = await this.tokenCredential.getToken(scope);
+    if (!accessToken) {
+      throw new CredentialUnavailableError(`The credential did not return a token for the scope "${scope}".`);
+    }
+    return {
+      tokenType: "Bearer",
+      accessToken: accessToken.token,
+      expiresOn: new Date(accessToken.expiresOnTimestamp),
+      resource
+    };
+  }
+
+  /**
+   * Gets a token for the given resource, for example "https://vault.azure.net", from the credential.
+   *
+   * @param resource - The resource for which the token is requested.
+   * @returns The tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  public getTokenForResource(resource: string): Promise<TokenResponse> {
+    if (!resource || typeof resource.valueOf() !== "string") {
+      return Promise.reject(new Error("resource must be a non empty string."));
+    }
+    return this.getToken(resource);
+  }
+
+  /**
+   * Signs a request with the Authentication header. The token is acquired for the resource that
+   * the hostToResourceMap gives for the request URL, if any.
+   *
+   * @param webResource - The WebResource to be signed.
+   */
+  public async signRequest(webResource: WebResource): Promise<WebResource> {
+    const tokenResponse = await this.getToken(getResourceForUrl(webResource.url, this.hostToResourceMap));
+    webResource.headers.set(
+      MSRestConstants.HeaderConstants.AUTHORIZATION,
+      `${tokenResponse.tokenType} ${tokenResponse.accessToken}`
+    );
+    return webResource;
+  }
+
+  /**
+   * Gets the properties of the credentials. Only the type of the `tokenCredential` is given, since it may hold secrets.
+   */
+  public toJSON(): { [key: string]: any } {
+    return redactCredentials(this, ["tokenCredential"]);
+  }
+
+  /**
+   * Formats the credentials for `console.log()` and `util.inspect()` from {@link toJSON}.
+   */
+  public [inspect.custom](_depth: number, options: InspectOptions): string {
+    return inspectCredentials(this, options);
+  }
+}
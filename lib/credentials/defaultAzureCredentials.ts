@@ -0,0 +1,91 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { Environment } from "@azure/ms-rest-azure-env";
+import { ChainedTokenCredentials, CredentialSource } from "./chainedTokenCredentials";
+import { EnvironmentCredentials } from "./environmentCredentials";
+import { createMSITokenCredentials, detectMSISource } from "./msiTokenCredentialsFactory";
+import { AzureCliCredentials } from "./azureCliCredentials";
+import { TokenClientCredentials } from "./tokenClientCredentials";
+import { AzureTokenCredentialsOptions } from "../login";
+
+/**
+ * Describes optional parameters for {@link DefaultAzureCredentials}.
+ */
+export interface DefaultAzureCredentialsOptions extends AzureTokenCredentialsOptions {
+  /**
+   * The clientId of the user-assigned managed identity to use. Defaults to the system-assigned identity.
+   */
+  managedIdentityClientId?: string;
+  /**
+   * Do not try to authenticate with the credentials configured via environment variables.
+   */
+  excludeEnvironmentCredentials?: boolean;
+  /**
+   * Do not try to authenticate with the managed identity of the host.
+   */
+  excludeMSICredentials?: boolean;
+  /**
+   * Do not try to authenticate with the account currently logged in to the Azure CLI.
+   */
+  excludeAzureCliCredentials?: boolean;
+}
+
+/**
+ * Provides credentials that work in most environments an application is developed in or deployed to.
+ * The following credentials are tried, in order:
+ * - The credentials configured through environment variables, see {@link EnvironmentCredentials}.
+ * - The managed identity of the host (App Service, Azure Arc, Cloud Shell, Service Fabric or virtual machine),
+ * detected from the environment variables or by probing the virtual machine identity service, see {@link detectMSISource}.
+ * - The account currently logged in to the Azure CLI via `az login`.
+ */
+export class DefaultAzureCredentials extends ChainedTokenCredentials {
+  /**
+   * Creates a new DefaultAzureCredentials object.
+   *
+   * @param options - Object representing optional parameters.
+   */
+  public constructor(options: DefaultAzureCredentialsOptions = {}) {
+    const environment = options.environment || Environment.AzureCloud;
+    const resource = _getResource(options, environment);
+    const sources: CredentialSource[] = [];
+
+    if (!options.excludeEnvironmentCredentials) {
+      sources.push(function environmentCredentials(): TokenClientCredentials {
+        return new EnvironmentCredentials(options);
+      });
+    }
+
+    if (!options.excludeMSICredentials) {
+      sources.push(async function managedIdentityCredentials(): Promise<TokenClientCredentials> {
+        const msiOptions = { resource, clientId: options.managedIdentityClientId };
+        return createMSITokenCredentials(msiOptions, await detectMSISource(msiOptions));
+      });
+    }
+
+    if (!options.excludeAzureCliCredentials) {
+      sources.push(function azureCliCredentials(): Promise<TokenClientCredentials> {
+        return AzureCliCredentials.create({ resource });
+      });
+    }
+
+    super(...sources);
+  }
+}
+
+/**
+ * Resolves the tokenAudience in the options to a resource uri understood by MSI and the Azure CLI.
+ */
+function _getResource(options: DefaultAzureCredentialsOptions, environment: Environment): string | undefined {
+  const tokenAudience = options.tokenAudience;
+  if (!tokenAudience) {
+    return undefined;
+  }
+  if (tokenAudience.toLowerCase() === "graph") {
+    return environment.activeDirectoryGraphResourceId;
+  }
+  if (tokenAudience.toLowerCase() === "batch") {
+    return environment.batchResourceId;
+  }
+  return tokenAudience;
+}
@@ -5,10 +5,32 @@ import { TokenCredentialsBase } from "./tokenCredentialsBase";
 import { Environment } from "@azure/ms-rest-azure-env";
 import { AuthConstants, TokenAudience } from "../util/authConstants";
 import { TokenResponse, TokenCache } from "adal-node";
+import { CachedAccount, listCachedAccounts } from "../tokenCache/cachedAccounts";
+import { CredentialUnavailableError } from "../util/authErrors";
+import { isAdfs } from "../util/environmentUtils";
+
+/**
+ * Describes optional parameters of {@link DeviceTokenCredentials.fromCachedAccount}.
+ */
+export interface CachedAccountCredentialsOptions {
+  /**
+   * The domain or tenant id in which the tokens are acquired. Default value is the tenant of the account, or "common".
+   */
+  domain?: string;
+  /**
+   * The audience for which the token is requested. Valid values are 'graph', 'batch', or any other resource like 'https://vault.azure.net/'.
+   */
+  tokenAudience?: TokenAudience;
+  /**
+   * The azure environment to authenticate with. Default value is the environment of the account.
+   */
+  environment?: Environment;
+}
 
 export class DeviceTokenCredentials extends TokenCredentialsBase {
 
   readonly username: string;
+  private readonly _hasUsername: boolean;
 
   /**
    * Creates a new DeviceTokenCredentials object that gets a new access token using userCodeInfo (contains user_code, device_code)
@@ -20,7 +42,8 @@ export class DeviceTokenCredentials extends TokenCredentialsBase {
    *
    * @param clientId - The active directory application client id.
    * @param domain - The domain or tenant id containing this application. Default value is "common"
-   * @param username - The user name for account in the form: "user@example.com".
+   * @param username - The user name for account in the form: "user@example.com". When it is not provided, the tokens are
+   * acquired for the only account of the token cache that signed in with the clientId.
    * @param tokenAudience - The audience for which the token is requested. Valid values are 'graph', 'batch', or any other resource like 'https://vault.azure.net/'.
    * If tokenAudience is 'graph' then domain should also be provided and its value should not be the default 'common' tenant. It must be a string (preferrably in a guid format).
    * See {@link https://azure.microsoft.com/en-us/documentation/articles/active-directory-devquickstarts-dotnet/ Active Directory Quickstart for .Net}
@@ -36,6 +59,7 @@ export class DeviceTokenCredentials extends TokenCredentialsBase {
     environment?: Environment,
     tokenCache?: TokenCache) {
 
+    const hasUsername = !!username;
     if (!username) {
       username = "user@example.com";
     }
@@ -51,10 +75,52 @@ export class DeviceTokenCredentials extends TokenCredentialsBase {
     super(clientId, domain, tokenAudience, environment, tokenCache);
 
     this.username = username;
+    this._hasUsername = hasUsername;
+  }
+
+  /**
+   * Creates a DeviceTokenCredentials object for an account of the token cache, listed by `listCachedAccounts()`. The tokens
+   * are acquired silently with the refresh token of the account, in its tenant or in any other tenant given as the domain.
+   *
+   * @param account - The cached account.
+   * @param tokenCache - The token cache holding the refresh token of the account.
+   * @param options - Optional parameters.
+   */
+  public static fromCachedAccount(account: CachedAccount, tokenCache: TokenCache, options: CachedAccountCredentialsOptions = {}): DeviceTokenCredentials {
+    const environment = options.environment || account.environment;
+    if (!environment) {
+      throw new Error(`The authority "${account.authority}" of the account "${account.username}" does not belong to a known Azure environment. Provide the environment in the options.`);
+    }
+    return new DeviceTokenCredentials(account.clientId, options.domain || account.tenantId, account.username,
+      options.tokenAudience, environment, tokenCache);
+  }
+
+  public getToken(resource: string | undefined = undefined): Promise<TokenResponse> {
+    return this.shareTokenRequest(resource, () => this._getToken(resource));
   }
 
-  public getToken(): Promise<TokenResponse> {
-    // For device auth, this is just getTokenFromCache.
-    return this.getTokenFromCache(this.username);
+  private async _getToken(resource?: string): Promise<TokenResponse> {
+    // For device auth, this is just getTokenFromCache. adal redeems the refresh token of the user for other resources.
+    let username: string | undefined = this.username;
+    if (!this._hasUsername) {
+      // The tokens of ADFS may not identify the user, adal then finds the token of the client id.
+      username = isAdfs(this.environment, this.domain) ? undefined : await this._findCachedUsername();
+    }
+    return this.getTokenFromCache(username, resource);
+  }
+
+  private async _findCachedUsername(): Promise<string> {
+    const accounts = await listCachedAccounts(this.tokenCache, { clientId: this.clientId, environment: this.environment });
+    const usernames = accounts
+      .map((account) => account.username)
+      .filter((username, index, all) => all.indexOf(username) === index);
+    if (usernames.length === 1) {
+      return usernames[0];
+    }
+    if (!usernames.length) {
+      throw new CredentialUnavailableError(`The token cache has no account that signed in with the client id "${this.clientId}". Login interactively first.`);
+    }
+    throw new CredentialUnavailableError(`The token cache has several accounts that signed in with the client id "${this.clientId}": ` +
+      `${usernames.join(", ")}. Provide the username of the account.`);
   }
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { inspect, InspectOptions } from "util";
+import { WebResource } from "@azure/ms-rest-js";
+import { Environment } from "@azure/ms-rest-azure-env";
+import { TokenClientCredentials, TokenResponse } from "./tokenClientCredentials";
+import { TokenCredentialsBase } from "./tokenCredentialsBase";
+import { ApplicationTokenCredentials } from "./applicationTokenCredentials";
+import { ApplicationTokenCertificateCredentials } from "./applicationTokenCertificateCredentials";
+import { UserTokenCredentials } from "./userTokenCredentials";
+import { AuthConstants } from "../util/authConstants";
+import { CredentialUnavailableError } from "../util/authErrors";
+import { HostToResourceMap } from "../util/resourceMap";
+import { findEnvironment } from "../util/environmentUtils";
+import { inspectCredentials, redactCredentials } from "../util/redaction";
+import { AzureTokenCredentialsOptions } from "../login";
+
+const clientIdVariable = "AZURE_CLIENT_ID";
+const tenantIdVariable = "AZURE_TENANT_ID";
+const clientSecretVariable = "AZURE_CLIENT_SECRET";
+const clientCertificatePathVariable = "AZURE_CLIENT_CERTIFICATE_PATH";
+const clientCertificatePasswordVariable = "AZURE_CLIENT_CERTIFICATE_PASSWORD";
+const clientSendCertificateChainVariable = "AZURE_CLIENT_SEND_CERTIFICATE_CHAIN";
+const usernameVariable = "AZURE_USERNAME";
+const passwordVariable = "AZURE_PASSWORD";
+const environmentVariable = "AZURE_ENVIRONMENT";
+
+/**
+ * Provides credentials configured entirely through environment variables. The type of the underlying
+ * credential depends on the variables that are set:
+ * - `AZURE_CLIENT_ID`, `AZURE_TENANT_ID` and `AZURE_CLIENT_SECRET`: {@link ApplicationTokenCredentials}.
+ * - `AZURE_CLIENT_ID`, `AZURE_TENANT_ID` and `AZURE_CLIENT_CERTIFICATE_PATH`: {@link ApplicationTokenCertificateCredentials}.
+ *   The path is that of a PEM or PFX/PKCS#12 file, whose password is given by `AZURE_CLIENT_CERTIFICATE_PASSWORD`.
+ *   The certificate chain is sent for subject name and issuer authentication when `AZURE_CLIENT_SEND_CERTIFICATE_CHAIN`
+ *   is "true" or "1".
+ * - `AZURE_USERNAME` and `AZURE_PASSWORD`, optionally with `AZURE_CLIENT_ID` and `AZURE_TENANT_ID`: {@link UserTokenCredentials}.
+ *
+ * The optional `AZURE_ENVIRONMENT` variable holds the name of the Azure environment to authenticate with,
+ * for example "AzureCloud", "AzureChinaCloud", "AzureUSGovernment" or "AzureGermanCloud".
+ */
+export class EnvironmentCredentials implements TokenClientCredentials {
+  /**
+   * The credentials created from the environment variables.
+   */
+  readonly credentials: TokenCredentialsBase;
+
+  /**
+   * Creates a new EnvironmentCredentials object by reading the environment variables.
+   * Throws an Error listing the missing variables when they do not describe a complete credential.
+   *
+   * @param options - Object representing optional parameters. An `environment` provided here takes
+   * precedence over the `AZURE_ENVIRONMENT` variable.
+   */
+  public constructor(options: AzureTokenCredentialsOptions = {}) {
+    this.credentials = _createCredentials(options);
+    this.credentials.logger = options.logger;
+  }
+
+  /**
+   * Maps the host of a request URL to the resource for which the token signing the request is acquired.
+   * It is the map of the underlying credentials.
+   */
+  public get hostToResourceMap(): HostToResourceMap | undefined {
+    return this.credentials.hostToResourceMap;
+  }
+
+  public set hostToResourceMap(value: HostToResourceMap | undefined) {
+    this.credentials.hostToResourceMap = value;
+  }
+
+  /**
+   * Gets the token from the credentials created from the environment variables.
+   *
+   * @param resource - The resource for which the token is requested. Default value is the tokenAudience.
+   * @returns The tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  public getToken(resource: string | undefined = undefined): Promise<TokenResponse> {
+    return this.credentials.getToken(resource);
+  }
+
+  /**
+   * Gets a token for the given resource, for example "https://vault.azure.net", with the same credentials.
+   *
+   * @param resource - The resource for which the token is requested.
+   * @returns The tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  public getTokenForResource(resource: string): Promise<TokenResponse> {
+    return this.credentials.getTokenForResource(resource);
+  }
+
+  /**
+   * Signs a request with the Authentication header.
+   *
+   * @param webResource - The WebResource to be signed.
+   */
+  public signRequest(webResource: WebResource): Promise<WebResource> {
+    return this.credentials.signRequest(webResource);
+  }
+
+  /**
+   * Gets the properties of the credentials. The underlying credentials redact their own secrets.
+   */
+  public toJSON(): { [key: string]: any } {
+    return redactCredentials(this);
+  }
+
+  /**
+   * Formats the credentials for `console.log()` and `util.inspect()` from {@link toJSON}.
+   */
+  public [inspect.custom](_depth: number, options: InspectOptions): string {
+    return inspectCredentials(this, options);
+  }
+}
+
+function _createCredentials(options: AzureTokenCredentialsOptions): TokenCredentialsBase {
+  const env = process.env;
+  const environment = options.environment || _resolveEnvironment(env[environmentVariable]);
+  const clientId = env[clientIdVariable];
+  const tenantId = env[tenantIdVariable];
+
+  if (env[usernameVariable] || env[passwordVariable]) {
+    const missing = [usernameVariable, passwordVariable].filter((name) => !env[name]);
+    if (missing.length) {
+      throw new CredentialUnavailableError(_missingVariablesMessage(missing));
+    }
+    return new UserTokenCredentials(
+      clientId || AuthConstants.DEFAULT_ADAL_CLIENT_ID,
+      tenantId || AuthConstants.AAD_COMMON_TENANT,
+      env[usernameVariable]!,
+      env[passwordVariable]!,
+      options.tokenAudience,
+      environment,
+      options.tokenCache
+    );
+  }
+
+  const missing = [clientIdVariable, tenantIdVariable].filter((name) => !env[name]);
+  if (!env[clientSecretVariable] && !env[clientCertificatePathVariable]) {
+    missing.push(`${clientSecretVariable} or ${clientCertificatePathVariable}`);
+  }
+  if (missing.length) {
+    throw new CredentialUnavailableError(_missingVariablesMessage(missing));
+  }
+
+  if (env[clientSecretVariable]) {
+    return new ApplicationTokenCredentials(
+      clientId!,
+      tenantId!,
+      env[clientSecretVariable]!,
+      options.tokenAudience,
+      environment,
+      options.tokenCache
+    );
+  }
+
+  return ApplicationTokenCertificateCredentials.create(
+    clientId!,
+    env[clientCertificatePathVariable]!,
+    tenantId!,
+    {
+      ...options,
+      environment,
+      certificatePassword: env[clientCertificatePasswordVariable],
+      sendCertificateChain: /^(true|1)$/i.test(env[clientSendCertificateChainVariable] || "")
+    }
+  );
+}
+
+function _missingVariablesMessage(missing: string[]): string {
+  return `Unable to create credentials from the environment. The following environment variables are missing: ${missing.join(", ")}.`;
+}
+
+/**
+ * Resolves an environment name like "AzureChinaCloud" (or the property name "ChinaCloud") to an Environment.
+ */
+function _resolveEnvironment(name?: string): Environment {
+  if (!name) {
+    return Environment.AzureCloud;
+  }
+
+  const environment = findEnvironment(name);
+  if (environment) {
+    return environment;
+  }
+
+  throw new CredentialUnavailableError(`The environment "${name}" provided in the environment variable ${environmentVariable} is not a known Azure environment.`);
+}
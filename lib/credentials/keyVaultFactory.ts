@@ -5,12 +5,16 @@ import { ApplicationTokenCredentials } from "./applicationTokenCredentials";
 import { ApplicationTokenCertificateCredentials } from "./applicationTokenCertificateCredentials";
 import { DeviceTokenCredentials } from "./deviceTokenCredentials";
 import { MSIAppServiceTokenCredentials } from "./msiAppServiceTokenCredentials";
+import { MSIArcTokenCredentials } from "./msiArcTokenCredentials";
+import { MSICloudShellTokenCredentials } from "./msiCloudShellTokenCredentials";
+import { MSIServiceFabricTokenCredentials } from "./msiServiceFabricTokenCredentials";
 import { MSITokenCredentials } from "./msiTokenCredentials";
 import { MSIVmTokenCredentials } from "./msiVmTokenCredentials";
 import { TokenCredentialsBase } from "./tokenCredentialsBase";
 import { UserTokenCredentials } from "./userTokenCredentials";
 import { AuthenticationContext, TokenResponse, ErrorResponse } from "adal-node";
 import { Authenticator } from "@azure/ms-rest-js";
+import { createAdalError } from "../util/authErrors";
 
 export function createAuthenticator(credentials: MSITokenCredentials): Authenticator {
   const convertedCredentials = _convert(credentials);
@@ -19,21 +23,54 @@ export function createAuthenticator(credentials: MSITokenCredentials): Authentic
   return authenticator;
 }
 
+/**
+ * Copies MSI credentials with all their options, so that changing the resource to the one requested by Key Vault
+ * does not affect the credentials of the caller.
+ */
 function _convert(credentials: MSITokenCredentials): MSITokenCredentials {
   if (credentials instanceof MSIAppServiceTokenCredentials) {
     return new MSIAppServiceTokenCredentials({
+      ...credentials.getMSIOptions(),
       msiEndpoint: credentials.msiEndpoint,
       msiSecret: credentials.msiSecret,
       msiApiVersion: credentials.msiApiVersion,
-      resource: credentials.resource
+      clientId: credentials.clientId
     });
   } else if (credentials instanceof MSIVmTokenCredentials) {
     return new MSIVmTokenCredentials({
-      resource: credentials.resource,
-      msiEndpoint: credentials.msiEndpoint
+      ...credentials.getMSIOptions(),
+      msiEndpoint: credentials.msiEndpoint,
+      apiVersion: credentials.apiVersion,
+      httpMethod: credentials.httpMethod,
+      objectId: credentials.objectId,
+      clientId: credentials.clientId,
+      identityId: credentials.identityId
+    });
+  } else if (credentials instanceof MSIArcTokenCredentials) {
+    return new MSIArcTokenCredentials({
+      ...credentials.getMSIOptions(),
+      msiEndpoint: credentials.msiEndpoint,
+      msiApiVersion: credentials.msiApiVersion,
+      challengeFileDirectory: credentials.challengeFileDirectory
+    });
+  } else if (credentials instanceof MSICloudShellTokenCredentials) {
+    return new MSICloudShellTokenCredentials({
+      ...credentials.getMSIOptions(),
+      msiEndpoint: credentials.msiEndpoint,
+      clientId: credentials.clientId
+    });
+  } else if (credentials instanceof MSIServiceFabricTokenCredentials) {
+    return new MSIServiceFabricTokenCredentials({
+      ...credentials.getMSIOptions(),
+      msiEndpoint: credentials.msiEndpoint,
+      msiSecret: credentials.msiSecret,
+      serverThumbprint: credentials.serverThumbprint,
+      msiApiVersion: credentials.msiApiVersion,
+      clientId: credentials.clientId
     });
   } else if (credentials instanceof MSITokenCredentials) {
-    throw new Error("MSI-credentials not one of: MSIVmTokenCredentials, MSIAppServiceTokenCredentials");
+    throw new Error("MSI-credentials not one of: MSIVmTokenCredentials, MSIAppServiceTokenCredentials, " +
+      "MSIArcTokenCredentials, MSICloudShellTokenCredentials, MSIServiceFabricTokenCredentials");
   } else {
     return credentials;
   }
@@ -43,12 +80,8 @@ function _createAuthenticatorMapper(credentials: MSITokenCredentials): Authentic
   return (challenge: any) => new Promise((resolve, reject) => {
     // Function to take token Response and format a authorization value
     const _formAuthorizationValue = (err: Error, tokenResponse: TokenResponse | ErrorResponse) => {
-      if (err) {
-        return reject(err);
-      }
-
-      if (tokenResponse.error) {
-        return reject(tokenResponse.error);
+      if (err || tokenResponse.error) {
+        return reject(createAdalError(err, tokenResponse));
       }
 
       tokenResponse = tokenResponse as TokenResponse;
@@ -74,7 +107,9 @@ function _createAuthenticatorMapper(credentials: MSITokenCredentials): Authentic
           challenge.resource, credentials.username, credentials.clientId, _formAuthorizationValue);
       }
     } else if (credentials instanceof MSITokenCredentials) {
-      return credentials.getToken();
+      return credentials.getToken(challenge.resource).then(
+        (tokenResponse) => resolve(tokenResponse.tokenType + " " + tokenResponse.accessToken),
+        reject);
     } else {
       return reject(new Error("credentials must be one of: ApplicationTokenCredentials, UserTokenCredentials, " +
         "DeviceTokenCredentials, MSITokenCredentials"));
@@ -1,8 +1,14 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
-import { MSITokenCredentials, MSIOptions, MSITokenResponse } from "./msiTokenCredentials";
+import { MSITokenCredentials, MSIOptions, MSISource, MSITokenResponse } from "./msiTokenCredentials";
 import { RequestPrepareOptions, WebResource } from "@azure/ms-rest-js";
+import { CredentialUnavailableError, ManagedIdentityError } from "../util/authErrors";
+
+/**
+ * The first api-version of the App Service identity endpoint that expects the `IDENTITY_HEADER` secret.
+ */
+const identityHeaderApiVersion = "2019-08-01";
 
 /**
  * Defines the optional parameters for authentication with MSI for AppService.
@@ -15,11 +21,12 @@ export interface MSIAppServiceOptions extends MSIOptions {
   msiEndpoint?: string;
   /**
    * The secret used in communication between your code and the local MSI agent.
-   * Unless this property is specified, any of the two environment variables `IDENTITY_SECRET` or `MSI_SECRET` will be used as the default value.
+   * Unless this property is specified, any of the environment variables `IDENTITY_SECRET`, `MSI_SECRET` or `IDENTITY_HEADER` will be used as the default value.
    */
   msiSecret?: string;
   /**
-   * The api-version of the local MSI agent. Default value is "2017-09-01".
+   * The api-version of the local MSI agent. Default value is "2019-08-01" when the secret is read from
+   * the environment variable `IDENTITY_HEADER`, "2017-09-01" otherwise.
    */
   msiApiVersion?: string;
   /**
@@ -40,11 +47,12 @@ export class MSIAppServiceTokenCredentials extends MSITokenCredentials {
   msiEndpoint: string;
   /**
    * The secret used in communication between your code and the local MSI agent.
-   * Unless this property is specified, any of the two environment variables `IDENTITY_SECRET` or `MSI_SECRET` will be used as the default value.
+   * Unless this property is specified, any of the environment variables `IDENTITY_SECRET`, `MSI_SECRET` or `IDENTITY_HEADER` will be used as the default value.
    */
   msiSecret: string;
   /**
-   * The api-version of the local MSI agent. Default value is "2017-09-01".
+   * The api-version of the local MSI agent. Default value is "2019-08-01" when the secret is read from
+   * the environment variable `IDENTITY_HEADER`, "2017-09-01" otherwise.
    */
   msiApiVersion?: string;
   /**
@@ -58,12 +66,13 @@ export class MSIAppServiceTokenCredentials extends MSITokenCredentials {
    * @param options.msiEndpoint - The local URL from which your app can request tokens.
    * Unless this property is specified, any of the two environment variables `IDENTITY_ENDPOINT` or `MSI_ENDPOINT` will be used as the default value.
    * @param options.msiSecret - The secret used in communication between your code and the local MSI agent.
-   * Unless this property is specified, any of the two environment variables `IDENTITY_SECRET` or `MSI_SECRET` will be used as the default value.
+   * Unless this property is specified, any of the environment variables `IDENTITY_SECRET`, `MSI_SECRET` or `IDENTITY_HEADER` will be used as the default value.
    * @param options.resource - The resource uri or token audience for which the token is needed.
    * For e.g. it can be:
    * - resource management endpoint "https://management.azure.com/" (default)
    * - management endpoint "https://management.core.windows.net/"
-   * @param options.msiApiVersion - The api-version of the local MSI agent. Default value is "2017-09-01".
+   * @param options.msiApiVersion - The api-version of the local MSI agent. Default value is "2019-08-01" when the secret is
+   * read from the environment variable `IDENTITY_HEADER`, "2017-09-01" otherwise.
    * @param options.clientId - The clientId of the managed identity you would like the token for. Required, if
    * your app service has user-assigned managed identities.
    */
@@ -71,19 +80,20 @@ export class MSIAppServiceTokenCredentials extends MSITokenCredentials {
     if (!options) options = {};
     super(options);
     options.msiEndpoint = options.msiEndpoint || process.env["IDENTITY_ENDPOINT"] || process.env["MSI_ENDPOINT"];
-    options.msiSecret = options.msiSecret || process.env["IDENTITY_SECRET"] || process.env["MSI_SECRET"];
+    const usesIdentityHeader = !options.msiSecret && !process.env["IDENTITY_SECRET"] && !process.env["MSI_SECRET"] && !!process.env["IDENTITY_HEADER"];
+    options.msiSecret = options.msiSecret || process.env["IDENTITY_SECRET"] || process.env["MSI_SECRET"] || process.env["IDENTITY_HEADER"];
     if (!options.msiEndpoint || (options.msiEndpoint && typeof options.msiEndpoint.valueOf() !== "string")) {
-      throw new Error('Either provide "msiEndpoint" as a property of the "options" object ' +
+      throw new CredentialUnavailableError('Either provide "msiEndpoint" as a property of the "options" object ' +
         'or set the environment variable "IDENTITY_ENDPOINT" or "MSI_ENDPOINT" and it must be of type "string".');
     }
 
     if (!options.msiSecret || (options.msiSecret && typeof options.msiSecret.valueOf() !== "string")) {
-      throw new Error('Either provide "msiSecret" as a property of the "options" object ' +
-        'or set the environment variable "IDENTITY_SECRET" or "MSI_SECRET" and it must be of type "string".');
+      throw new CredentialUnavailableError('Either provide "msiSecret" as a property of the "options" object ' +
+        'or set the environment variable "IDENTITY_SECRET", "MSI_SECRET" or "IDENTITY_HEADER" and it must be of type "string".');
     }
 
     if (!options.msiApiVersion) {
-      options.msiApiVersion = "2017-09-01";
+      options.msiApiVersion = usesIdentityHeader ? identityHeaderApiVersion : "2017-09-01";
     } else if (typeof options.msiApiVersion.valueOf() !== "string") {
       throw new Error("msiApiVersion must be a uri.");
     }
@@ -94,39 +104,51 @@ export class MSIAppServiceTokenCredentials extends MSITokenCredentials {
     this.clientId = options.clientId;
   }
 
+  /**
+   * The hosting environment whose managed identity endpoint provides the tokens.
+   */
+  public get source(): MSISource {
+    return "AppService";
+  }
+
   /**
    * Prepares and sends a GET request to a service endpoint indicated by the app service, which responds with the access token.
+   * @param resource - The resource for which the token is requested.
    * @returns Promise with the tokenResponse (tokenType and accessToken are the two important properties).
    */
-  async getToken(): Promise<MSITokenResponse> {
-    const reqOptions = this.prepareRequestOptions();
-
-    const opRes = await this._httpClient.sendRequest(reqOptions);
+  protected async acquireToken(resource: string): Promise<MSITokenResponse> {
+    const opRes = await this.sendTokenRequest(() => this.prepareRequestOptions(resource));
     if (opRes.bodyAsText === undefined || opRes.bodyAsText!.indexOf("ExceptionMessage") !== -1) {
-      throw new Error(`MSI: Failed to retrieve a token from "${reqOptions.url}" with an error: ${opRes.bodyAsText}`);
+      throw new ManagedIdentityError(`MSI: Failed to retrieve a token from "${opRes.request.url}" with an error: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
     }
 
     const result = this.parseTokenResponse(opRes.bodyAsText!) as MSITokenResponse;
     if (!result.tokenType) {
-      throw new Error(`Invalid token response, did not find tokenType. Response body is: ${opRes.bodyAsText}`);
+      throw new ManagedIdentityError(`Invalid token response, did not find tokenType. Response body is: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
     } else if (!result.accessToken) {
-      throw new Error(`Invalid token response, did not find accessToken. Response body is: ${opRes.bodyAsText}`);
+      throw new ManagedIdentityError(`Invalid token response, did not find accessToken. Response body is: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
     }
 
     return result;
   }
 
-  protected prepareRequestOptions(): WebResource {
+  protected prepareRequestOptions(resource: string = this.resource): WebResource {
     const endpoint = this.msiEndpoint.endsWith("/") ? this.msiEndpoint : `${this.msiEndpoint}/`;
+    // Starting with the api-version 2019-08-01 the secret is sent in a different header and the client id
+    // in a different query parameter.
+    const usesIdentityHeader = !!this.msiApiVersion && this.msiApiVersion >= identityHeaderApiVersion;
     const reqOptions: RequestPrepareOptions = {
       url: endpoint,
-      headers: {
-        secret: this.msiSecret,
-      },
+      headers: usesIdentityHeader
+        ? { "X-IDENTITY-HEADER": this.msiSecret }
+        : { secret: this.msiSecret },
       queryParameters: {
-        "resource": this.resource,
+        "resource": resource,
         "api-version": this.msiApiVersion,
-        "clientid": this.clientId,
+        [usesIdentityHeader ? "client_id" : "clientid"]: this.clientId,
       },
       method: "GET",
     };
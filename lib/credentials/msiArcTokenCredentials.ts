@@ -0,0 +1,193 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { HttpOperationResponse, RequestPrepareOptions, WebResource } from "@azure/ms-rest-js";
+import { MSITokenCredentials, MSIOptions, MSISource, MSITokenResponse } from "./msiTokenCredentials";
+import { CredentialUnavailableError, ManagedIdentityError } from "../util/authErrors";
+
+const readFile = promisify(fs.readFile);
+const stat = promisify(fs.stat);
+
+/**
+ * The maximum size of the challenge file written by the Azure Connected Machine agent.
+ */
+const maxChallengeFileSizeInBytes = 4096;
+
+/**
+ * Defines the optional parameters for authentication with MSI on a server connected with Azure Arc.
+ */
+export interface MSIArcOptions extends MSIOptions {
+  /**
+   * The local URL from which your app can request tokens.
+   * Unless this property is specified, the environment variable `IDENTITY_ENDPOINT` will be used as the default value.
+   */
+  msiEndpoint?: string;
+  /**
+   * The api-version of the Azure Connected Machine agent. Default value is "2019-11-01".
+   */
+  msiApiVersion?: string;
+  /**
+   * The directory in which the agent writes the challenge files. Only files in this directory are read.
+   * Default value is "/var/opt/azcmagent/tokens" on Linux and "%ProgramData%\AzureConnectedMachineAgent\Tokens" on Windows.
+   */
+  challengeFileDirectory?: string;
+}
+
+/**
+ * Provides information about managed service identity token credentials on a server connected with Azure Arc.
+ *
+ * The Azure Connected Machine agent answers the first request with a 401 status code and a
+ * `WWW-Authenticate: Basic realm=<file>` header. The file can only be read by administrators and members of
+ * the "himds" group, and its content proves to the agent that the caller is allowed to get the token.
+ */
+export class MSIArcTokenCredentials extends MSITokenCredentials {
+  /**
+   * The local URL from which your app can request tokens.
+   */
+  msiEndpoint: string;
+  /**
+   * The api-version of the Azure Connected Machine agent.
+   */
+  msiApiVersion: string;
+  /**
+   * The directory in which the agent writes the challenge files.
+   */
+  challengeFileDirectory: string;
+
+  /**
+   * Creates an instance of MSIArcTokenCredentials.
+   * @param options.msiEndpoint - The local URL from which your app can request tokens.
+   * Unless this property is specified, the environment variable `IDENTITY_ENDPOINT` will be used as the default value.
+   * @param options.resource - The resource uri or token audience for which the token is needed.
+   * @param options.msiApiVersion - The api-version of the Azure Connected Machine agent. Default value is "2019-11-01".
+   * @param options.challengeFileDirectory - The directory in which the agent writes the challenge files.
+   */
+  constructor(options?: MSIArcOptions) {
+    if (!options) options = {};
+    super(options);
+    options.msiEndpoint = options.msiEndpoint || process.env["IDENTITY_ENDPOINT"];
+    if (!options.msiEndpoint || typeof options.msiEndpoint.valueOf() !== "string") {
+      throw new CredentialUnavailableError('Either provide "msiEndpoint" as a property of the "options" object ' +
+        'or set the environment variable "IDENTITY_ENDPOINT" and it must be of type "string".');
+    }
+
+    if (!options.msiApiVersion) {
+      options.msiApiVersion = "2019-11-01";
+    } else if (typeof options.msiApiVersion.valueOf() !== "string") {
+      throw new Error("msiApiVersion must be a string.");
+    }
+
+    const challengeFileDirectory = options.challengeFileDirectory || _getDefaultChallengeFileDirectory();
+    if (!challengeFileDirectory) {
+      throw new CredentialUnavailableError(`Azure Arc managed identity is not supported on the platform "${process.platform}".`);
+    }
+
+    this.msiEndpoint = options.msiEndpoint;
+    this.msiApiVersion = options.msiApiVersion;
+    this.challengeFileDirectory = challengeFileDirectory;
+  }
+
+  /**
+   * The hosting environment whose managed identity endpoint provides the tokens.
+   */
+  public get source(): MSISource {
+    return "Arc";
+  }
+
+  /**
+   * Sends the request without the secret to receive the challenge, reads the secret from the challenge
+   * file and sends the request again with the secret, which responds with the access token.
+   * @param resource - The resource for which the token is requested.
+   * @returns Promise with the tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  protected async acquireToken(resource: string): Promise<MSITokenResponse> {
+    const challengeRequest = this.prepareRequestOptions(resource);
+    let challengeResponse: HttpOperationResponse;
+    try {
+      challengeResponse = await this._httpClient.sendRequest(challengeRequest);
+    } catch (err) {
+      throw new ManagedIdentityError(`MSI: Failed to send the token request to "${challengeRequest.url}": ${err.message || err}`, { cause: err });
+    }
+    if (challengeResponse.status !== 401) {
+      throw new ManagedIdentityError(`MSI: Expected an authentication challenge from "${challengeRequest.url}" but received ` +
+        `the status code ${challengeResponse.status}. Response body: ${challengeResponse.bodyAsText}`,
+        { statusCode: challengeResponse.status, body: challengeResponse.bodyAsText || undefined });
+    }
+
+    const secret = await this._readChallengeFile(challengeResponse.headers.get("www-authenticate"));
+    const opRes = await this.sendTokenRequest(() => {
+      const webResource = this.prepareRequestOptions(resource);
+      webResource.headers.set("Authorization", `Basic ${secret}`);
+      return webResource;
+    });
+
+    const result = this.parseTokenResponse(opRes.bodyAsText!) as MSITokenResponse;
+    if (!result.tokenType) {
+      throw new ManagedIdentityError(`Invalid token response, did not find tokenType. Response body is: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
+    } else if (!result.accessToken) {
+      throw new ManagedIdentityError(`Invalid token response, did not find accessToken. Response body is: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
+    }
+
+    return result;
+  }
+
+  protected prepareRequestOptions(resource: string = this.resource): WebResource {
+    const reqOptions: RequestPrepareOptions = {
+      url: this.msiEndpoint,
+      headers: {
+        "Metadata": "true"
+      },
+      queryParameters: {
+        "api-version": this.msiApiVersion,
+        "resource": resource
+      },
+      method: "GET"
+    };
+
+    const webResource = new WebResource();
+    return webResource.prepare(reqOptions);
+  }
+
+  /**
+   * Reads the secret from the file named in the `WWW-Authenticate` header, after making sure that the file is a
+   * ".key" file located in the challenge file directory, so that the agent cannot be used to read arbitrary files.
+   */
+  private async _readChallengeFile(authenticateHeader: string | undefined): Promise<string> {
+    const match = authenticateHeader && authenticateHeader.match(/^\s*Basic\s+realm\s*=\s*"?([^"]+)"?\s*$/i);
+    if (!match) {
+      throw new ManagedIdentityError(`MSI: The authentication challenge "${authenticateHeader}" does not contain the path of the challenge file.`,
+        { statusCode: 401 });
+    }
+
+    const filePath = path.resolve(match[1]);
+    if (path.dirname(filePath) !== path.resolve(this.challengeFileDirectory) || path.extname(filePath) !== ".key") {
+      throw new ManagedIdentityError(`MSI: The challenge file "${filePath}" is not a ".key" file in the directory "${this.challengeFileDirectory}".`,
+        { statusCode: 401 });
+    }
+
+    try {
+      const fileStat = await stat(filePath);
+      if (fileStat.size > maxChallengeFileSizeInBytes) {
+        throw new Error(`The file is larger than ${maxChallengeFileSizeInBytes} bytes.`);
+      }
+      return await readFile(filePath, { encoding: "utf8" });
+    } catch (err) {
+      throw new ManagedIdentityError(`MSI: Failed to read the challenge file "${filePath}": ${err.message}`, { cause: err });
+    }
+  }
+}
+
+function _getDefaultChallengeFileDirectory(): string | undefined {
+  if (process.platform === "linux") {
+    return "/var/opt/azcmagent/tokens";
+  }
+  if (process.platform === "win32" && process.env["ProgramData"]) {
+    return path.join(process.env["ProgramData"]!, "AzureConnectedMachineAgent", "Tokens");
+  }
+  return undefined;
+}
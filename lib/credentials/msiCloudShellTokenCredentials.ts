@@ -0,0 +1,105 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { MSITokenCredentials, MSIOptions, MSISource, MSITokenResponse } from "./msiTokenCredentials";
+import { RequestPrepareOptions, WebResource } from "@azure/ms-rest-js";
+import { CredentialUnavailableError, ManagedIdentityError } from "../util/authErrors";
+
+/**
+ * Defines the optional parameters for authentication with MSI in Azure Cloud Shell.
+ */
+export interface MSICloudShellOptions extends MSIOptions {
+  /**
+   * The local URL from which your app can request tokens.
+   * Unless this property is specified, the environment variable `MSI_ENDPOINT` will be used as the default value.
+   */
+  msiEndpoint?: string;
+  /**
+   * The clientId of the managed identity you would like the token for.
+   */
+  clientId?: string;
+}
+
+/**
+ * Provides information about managed service identity token credentials in Azure Cloud Shell.
+ * The tokens are issued for the user logged in to the Cloud Shell.
+ */
+export class MSICloudShellTokenCredentials extends MSITokenCredentials {
+  /**
+   * The local URL from which your app can request tokens.
+   */
+  msiEndpoint: string;
+  /**
+   * The clientId of the managed identity you would like the token for.
+   */
+  clientId?: string;
+
+  /**
+   * Creates an instance of MSICloudShellTokenCredentials.
+   * @param options.msiEndpoint - The local URL from which your app can request tokens.
+   * Unless this property is specified, the environment variable `MSI_ENDPOINT` will be used as the default value.
+   * @param options.resource - The resource uri or token audience for which the token is needed.
+   * @param options.clientId - The clientId of the managed identity you would like the token for.
+   */
+  constructor(options?: MSICloudShellOptions) {
+    if (!options) options = {};
+    super(options);
+    options.msiEndpoint = options.msiEndpoint || process.env["MSI_ENDPOINT"];
+    if (!options.msiEndpoint || typeof options.msiEndpoint.valueOf() !== "string") {
+      throw new CredentialUnavailableError('Either provide "msiEndpoint" as a property of the "options" object ' +
+        'or set the environment variable "MSI_ENDPOINT" and it must be of type "string".');
+    }
+
+    this.msiEndpoint = options.msiEndpoint;
+    this.clientId = options.clientId;
+  }
+
+  /**
+   * The hosting environment whose managed identity endpoint provides the tokens.
+   */
+  public get source(): MSISource {
+    return "CloudShell";
+  }
+
+  /**
+   * Prepares and sends a POST request to the Cloud Shell token endpoint, which responds with the access token.
+   * @param resource - The resource for which the token is requested.
+   * @returns Promise with the tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  protected async acquireToken(resource: string): Promise<MSITokenResponse> {
+    const opRes = await this.sendTokenRequest(() => this.prepareRequestOptions(resource));
+    const result = this.parseTokenResponse(opRes.bodyAsText!) as MSITokenResponse;
+    if (!result.tokenType) {
+      throw new ManagedIdentityError(`Invalid token response, did not find tokenType. Response body is: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
+    } else if (!result.accessToken) {
+      throw new ManagedIdentityError(`Invalid token response, did not find accessToken. Response body is: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
+    }
+
+    return result;
+  }
+
+  protected prepareRequestOptions(resource: string = this.resource): WebResource {
+    const body: { [key: string]: string } = { resource };
+    if (this.clientId) {
+      body["client_id"] = this.clientId;
+    }
+
+    const reqOptions: RequestPrepareOptions = {
+      url: this.msiEndpoint,
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded; charset=UTF-8",
+        "Metadata": "true"
+      },
+      method: "POST"
+    };
+
+    const webResource = new WebResource();
+    webResource.prepare(reqOptions);
+    webResource.body = Object.keys(body)
+      .map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(body[key])}`)
+      .join("&");
+    return webResource;
+  }
+}
@@ -0,0 +1,186 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as https from "https";
+import { TLSSocket } from "tls";
+import { MSITokenCredentials, MSIOptions, MSISource, MSITokenResponse } from "./msiTokenCredentials";
+import { RequestPrepareOptions, WebResource } from "@azure/ms-rest-js";
+import { CredentialUnavailableError, ManagedIdentityError } from "../util/authErrors";
+
+/**
+ * Defines the optional parameters for authentication with MSI in a Service Fabric application.
+ */
+export interface MSIServiceFabricOptions extends MSIOptions {
+  /**
+   * The local URL from which your app can request tokens.
+   * Unless this property is specified, the environment variable `IDENTITY_ENDPOINT` will be used as the default value.
+   */
+  msiEndpoint?: string;
+  /**
+   * The secret used in communication between your code and the Service Fabric managed identity token service.
+   * Unless this property is specified, the environment variable `IDENTITY_HEADER` will be used as the default value.
+   */
+  msiSecret?: string;
+  /**
+   * The SHA-1 thumbprint of the self-signed certificate of the managed identity token service. The connection is
+   * rejected when the service presents another certificate.
+   * Unless this property is specified, the environment variable `IDENTITY_SERVER_THUMBPRINT` will be used as the default value.
+   */
+  serverThumbprint?: string;
+  /**
+   * The api-version of the managed identity token service. Default value is "2019-07-01-preview".
+   */
+  msiApiVersion?: string;
+  /**
+   * The clientId of the managed identity you would like the token for. Required, if
+   * your application has user-assigned managed identities.
+   */
+  clientId?: string;
+}
+
+/**
+ * Provides information about managed service identity token credentials in a Service Fabric application.
+ */
+export class MSIServiceFabricTokenCredentials extends MSITokenCredentials {
+  /**
+   * The local URL from which your app can request tokens.
+   */
+  msiEndpoint: string;
+  /**
+   * The secret used in communication between your code and the managed identity token service.
+   */
+  msiSecret: string;
+  /**
+   * The SHA-1 thumbprint of the certificate of the managed identity token service.
+   */
+  serverThumbprint: string;
+  /**
+   * The api-version of the managed identity token service.
+   */
+  msiApiVersion: string;
+  /**
+   * The clientId of the managed identity you would like the token for.
+   */
+  clientId?: string;
+  private readonly _agent: https.Agent;
+
+  /**
+   * Creates an instance of MSIServiceFabricTokenCredentials.
+   * @param options.msiEndpoint - The local URL from which your app can request tokens.
+   * Unless this property is specified, the environment variable `IDENTITY_ENDPOINT` will be used as the default value.
+   * @param options.msiSecret - The secret used in communication between your code and the managed identity token service.
+   * Unless this property is specified, the environment variable `IDENTITY_HEADER` will be used as the default value.
+   * @param options.serverThumbprint - The SHA-1 thumbprint of the certificate of the managed identity token service.
+   * Unless this property is specified, the environment variable `IDENTITY_SERVER_THUMBPRINT` will be used as the default value.
+   * @param options.resource - The resource uri or token audience for which the token is needed.
+   * @param options.msiApiVersion - The api-version of the managed identity token service. Default value is "2019-07-01-preview".
+   * @param options.clientId - The clientId of the managed identity you would like the token for.
+   */
+  constructor(options?: MSIServiceFabricOptions) {
+    if (!options) options = {};
+    super(options);
+    options.msiEndpoint = options.msiEndpoint || process.env["IDENTITY_ENDPOINT"];
+    options.msiSecret = options.msiSecret || process.env["IDENTITY_HEADER"];
+    options.serverThumbprint = options.serverThumbprint || process.env["IDENTITY_SERVER_THUMBPRINT"];
+    if (!options.msiEndpoint || typeof options.msiEndpoint.valueOf() !== "string") {
+      throw new CredentialUnavailableError('Either provide "msiEndpoint" as a property of the "options" object ' +
+        'or set the environment variable "IDENTITY_ENDPOINT" and it must be of type "string".');
+    }
+
+    if (!options.msiSecret || typeof options.msiSecret.valueOf() !== "string") {
+      throw new CredentialUnavailableError('Either provide "msiSecret" as a property of the "options" object ' +
+        'or set the environment variable "IDENTITY_HEADER" and it must be of type "string".');
+    }
+
+    if (!options.serverThumbprint || typeof options.serverThumbprint.valueOf() !== "string") {
+      throw new CredentialUnavailableError('Either provide "serverThumbprint" as a property of the "options" object ' +
+        'or set the environment variable "IDENTITY_SERVER_THUMBPRINT" and it must be of type "string".');
+    }
+
+    if (!options.msiApiVersion) {
+      options.msiApiVersion = "2019-07-01-preview";
+    } else if (typeof options.msiApiVersion.valueOf() !== "string") {
+      throw new Error("msiApiVersion must be a string.");
+    }
+
+    this.msiEndpoint = options.msiEndpoint;
+    this.msiSecret = options.msiSecret;
+    this.serverThumbprint = options.serverThumbprint;
+    this.msiApiVersion = options.msiApiVersion;
+    this.clientId = options.clientId;
+    this._agent = _createThumbprintAgent(options.serverThumbprint);
+  }
+
+  /**
+   * The hosting environment whose managed identity endpoint provides the tokens.
+   */
+  public get source(): MSISource {
+    return "ServiceFabric";
+  }
+
+  /**
+   * Prepares and sends a GET request to the Service Fabric managed identity token service, which responds with the access token.
+   * @param resource - The resource for which the token is requested.
+   * @returns Promise with the tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  protected async acquireToken(resource: string): Promise<MSITokenResponse> {
+    const opRes = await this.sendTokenRequest(() => this.prepareRequestOptions(resource));
+    const result = this.parseTokenResponse(opRes.bodyAsText!) as MSITokenResponse;
+    if (!result.tokenType) {
+      throw new ManagedIdentityError(`Invalid token response, did not find tokenType. Response body is: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
+    } else if (!result.accessToken) {
+      throw new ManagedIdentityError(`Invalid token response, did not find accessToken. Response body is: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
+    }
+
+    return result;
+  }
+
+  protected prepareRequestOptions(resource: string = this.resource): WebResource {
+    const reqOptions: RequestPrepareOptions = {
+      url: this.msiEndpoint,
+      headers: {
+        secret: this.msiSecret
+      },
+      queryParameters: {
+        "api-version": this.msiApiVersion,
+        "resource": resource,
+        "client_id": this.clientId
+      },
+      method: "GET"
+    };
+
+    const webResource = new WebResource();
+    webResource.prepare(reqOptions);
+    webResource.agentSettings = { http: this._agent, https: this._agent };
+    return webResource;
+  }
+}
+
+/**
+ * Creates an agent that accepts the self-signed certificate of the token service only if its thumbprint
+ * matches the expected one. The certificate chain cannot be verified, since it is not issued by a trusted authority.
+ * The socket is corked until the thumbprint is checked, so that the secret is never sent to another server.
+ */
+function _createThumbprintAgent(thumbprint: string): https.Agent {
+  const expectedThumbprint = thumbprint.replace(/:/g, "").toUpperCase();
+  const agent = new https.Agent({ rejectUnauthorized: false });
+  const createConnection = (agent as any).createConnection;
+  (agent as any).createConnection = function (...args: any[]): TLSSocket {
+    const socket: TLSSocket = createConnection.apply(this, args);
+    socket.cork();
+    socket.once("secureConnect", () => {
+      const certificate = socket.getPeerCertificate();
+      const actualThumbprint = (certificate && certificate.fingerprint || "").replace(/:/g, "").toUpperCase();
+      if (actualThumbprint !== expectedThumbprint) {
+        socket.destroy(new Error(`The thumbprint "${actualThumbprint}" of the certificate presented by the managed identity ` +
+          `token service does not match the expected thumbprint "${expectedThumbprint}".`));
+      } else {
+        socket.uncork();
+      }
+    });
+    return socket;
+  };
+  return agent;
+}
@@ -1,9 +1,14 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
-import { Constants, WebResource, HttpClient, DefaultHttpClient } from "@azure/ms-rest-js";
+import { inspect, InspectOptions } from "util";
+import { Constants, WebResource, HttpClient, DefaultHttpClient, HttpOperationResponse, delay } from "@azure/ms-rest-js";
 import { TokenClientCredentials, TokenResponse } from "./tokenClientCredentials";
 import { AuthConstants } from "../util/authConstants";
+import { ManagedIdentityError } from "../util/authErrors";
+import { HostToResourceMap, getResourceForUrl } from "../util/resourceMap";
+import { AuthLogger, logEvent } from "../util/logger";
+import { inspectCredentials, redactCredentials } from "../util/redaction";
 
 /**
  * Defines the optional parameters for authentication with MSI.
@@ -25,8 +30,47 @@ export interface MSIOptions {
    * By default it is Axios-based {@link DefaultHttpClient}.
    */
   httpClient?: HttpClient;
+
+  /**
+   * The number of seconds before the token expires within which the token is refreshed. The cached token
+   * keeps being returned while the new one is acquired in the background. Default value is 300 seconds (5 minutes).
+   */
+  tokenRefreshMarginInSeconds?: number;
+
+  /**
+   * Maps the host of a request URL to the resource for which the token signing the request is acquired,
+   * see {@link createHostToResourceMap}. Requests to other hosts are signed with a token for `resource`.
+   */
+  hostToResourceMap?: HostToResourceMap;
+
+  /**
+   * The maximum number of times a request to the MSI endpoint is retried when it responds with
+   * 404, 410, 429 or a 5xx status code. Default value is 3.
+   */
+  maxRetries?: number;
+
+  /**
+   * The delay before the first retry. It doubles with every retry, with a random jitter, unless the
+   * endpoint sends a `Retry-After` header. Default value is 1000 milliseconds.
+   */
+  retryDelayInMs?: number;
+
+  /**
+   * The maximum total time spent waiting between retries. Default value is 30000 milliseconds.
+   */
+  maxTotalRetryDelayInMs?: number;
+
+  /**
+   * Receives the log entries of the credentials. Default value is the logger set with `setLogger()`, if any.
+   */
+  logger?: AuthLogger;
 }
 
+/**
+ * The hosting environments in which a managed identity can provide tokens.
+ */
+export type MSISource = "AppService" | "Arc" | "CloudShell" | "ServiceFabric" | "VM";
+
 /**
  * Describes the MSITokenResponse.
  */
@@ -37,6 +81,17 @@ export interface MSITokenResponse extends TokenResponse {
   readonly [x: string]: any;
 }
 
+/**
+ * A token cached by {@link MSITokenCredentials}.
+ */
+interface CachedToken {
+  tokenResponse: MSITokenResponse;
+  /**
+   * The time at which the token expires, in milliseconds since the epoch.
+   */
+  expiresOnTimestamp: number;
+}
+
 /**
  * Provides information about managed service identity token credentials.
  * This object can only be used to acquire token on a virtual machine provisioned in Azure with managed service identity.
@@ -51,8 +106,34 @@ export abstract class MSITokenCredentials implements TokenClientCredentials {
    * - For Azure Active Directory Graph: "https://graph.windows.net"
    */
   resource: string;
+  /**
+   * Maps the host of a request URL to the resource for which the token signing the request is acquired.
+   */
+  hostToResourceMap?: HostToResourceMap;
+  /**
+   * Receives the log entries of these credentials. Default value is the logger set with `setLogger()`, if any.
+   */
+  logger?: AuthLogger;
   protected _httpClient: HttpClient;
 
+  /**
+   * The number of seconds before the token expires within which the token is refreshed in the background.
+   */
+  private readonly _tokenRefreshMarginInSeconds: number;
+  /**
+   * The number of seconds before the token expires after which the cached token is no longer returned, to
+   * account for clock skew and latency.
+   */
+  private readonly _tokenExpirationBufferInSeconds: number = 30;
+  private readonly _maxRetries: number;
+  private readonly _retryDelayInMs: number;
+  private readonly _maxTotalRetryDelayInMs: number;
+  /**
+   * The cached tokens and the pending token requests, by resource.
+   */
+  private readonly _cachedTokens = new Map<string, CachedToken>();
+  private readonly _tokenRefreshes = new Map<string, Promise<MSITokenResponse>>();
+
   /**
    * Creates an instance of MSITokenCredentials.
    * @param options - Optional parameters
@@ -70,8 +151,52 @@ export abstract class MSITokenCredentials implements TokenClientCredentials {
       throw new Error("resource must be a uri.");
     }
 
+    if (options.tokenRefreshMarginInSeconds !== undefined &&
+      (typeof options.tokenRefreshMarginInSeconds !== "number" || options.tokenRefreshMarginInSeconds < 0)) {
+      throw new Error("tokenRefreshMarginInSeconds must be a non negative number.");
+    }
+
+    const retryOptions: Array<"maxRetries" | "retryDelayInMs" | "maxTotalRetryDelayInMs"> = ["maxRetries", "retryDelayInMs", "maxTotalRetryDelayInMs"];
+    for (const name of retryOptions) {
+      const value = options[name];
+      if (value !== undefined && (typeof value !== "number" || value < 0)) {
+        throw new Error(`${name} must be a non negative number.`);
+      }
+    }
+
     this.resource = options.resource;
+    this.hostToResourceMap = options.hostToResourceMap;
+    this.logger = options.logger;
     this._httpClient = options.httpClient || new DefaultHttpClient();
+    this._tokenRefreshMarginInSeconds = options.tokenRefreshMarginInSeconds === undefined ? 300 : options.tokenRefreshMarginInSeconds;
+    this._maxRetries = options.maxRetries === undefined ? 3 : options.maxRetries;
+    this._retryDelayInMs = options.retryDelayInMs === undefined ? 1000 : options.retryDelayInMs;
+    this._maxTotalRetryDelayInMs = options.maxTotalRetryDelayInMs === undefined ? 30000 : options.maxTotalRetryDelayInMs;
+  }
+
+  /**
+   * The hosting environment whose managed identity endpoint provides the tokens. It is `undefined` for
+   * subclasses that are not provided by this package.
+   */
+  public get source(): MSISource | undefined {
+    return undefined;
+  }
+
+  /**
+   * Gets the options that every kind of MSI credentials accepts, with the values used by these credentials.
+   * @returns The resource, HTTP client, logger, token refresh and retry options of these credentials.
+   */
+  public getMSIOptions(): MSIOptions {
+    return {
+      resource: this.resource,
+      httpClient: this._httpClient,
+      tokenRefreshMarginInSeconds: this._tokenRefreshMarginInSeconds,
+      hostToResourceMap: this.hostToResourceMap,
+      maxRetries: this._maxRetries,
+      retryDelayInMs: this._retryDelayInMs,
+      maxTotalRetryDelayInMs: this._maxTotalRetryDelayInMs,
+      logger: this.logger
+    };
   }
 
   /**
@@ -116,10 +241,10 @@ export abstract class MSITokenCredentials implements TokenClientCredentials {
       if (typeof parsedBody["expires_on"] === "string") {
         // possibly a Date string '09/14/2017 00:00:00 PM +00:00'
         if (parsedBody["expires_on"].includes(":") || parsedBody["expires_on"].includes("/")) {
-          parsedBody.expiresOn = new Date(parseInt(parsedBody["expires_on"], 10));
+          parsedBody.expiresOn = new Date(parsedBody["expires_on"]);
         } else {
-          // normal number as a string '1504130527'
-          parsedBody.expiresOn = new Date(parseInt(parsedBody["expires_on"], 10));
+          // normal number of seconds since the epoch as a string '1504130527'
+          parsedBody.expiresOn = new Date(parseInt(parsedBody["expires_on"], 10) * 1000);
         }
       }
       delete parsedBody["expires_on"];
@@ -128,23 +253,199 @@ export abstract class MSITokenCredentials implements TokenClientCredentials {
   }
 
   /**
-   * Prepares and sends a POST request to a service endpoint hosted on the Azure VM, which responds with the access token.
-   * @param  callback - The callback in the form (err, result)
+   * Returns the cached token if it does not expire within the refresh margin. Otherwise a new token is acquired
+   * from the MSI endpoint. Close to the expiry of the cached token, the cached token is returned while a new
+   * one is acquired in the background. Concurrent calls share a single request to the MSI endpoint.
+   * Tokens are cached per resource.
+   * @param resource - The resource for which the token is requested. Default value is `resource`.
    * @returns Promise with the token response.
    */
-  abstract async getToken(): Promise<MSITokenResponse>;
+  public async getToken(resource: string = this.resource): Promise<MSITokenResponse> {
+    const cachedToken = this._cachedTokens.get(resource);
+    if (cachedToken) {
+      const secondsToExpiry = (cachedToken.expiresOnTimestamp - Date.now()) / 1000;
+      if (secondsToExpiry > this._tokenRefreshMarginInSeconds) {
+        logEvent(this.logger, "verbose", "token.cache", "Returned the cached managed identity token.", { resource });
+        return cachedToken.tokenResponse;
+      }
+      if (secondsToExpiry > this._tokenExpirationBufferInSeconds) {
+        logEvent(this.logger, "info", "token.refresh", "Refreshing the managed identity token in the background.",
+          { resource, secondsToExpiry: Math.floor(secondsToExpiry) });
+        // The failure of a background refresh is ignored, the next call will try again.
+        this._refreshToken(resource).catch(() => undefined);
+        return cachedToken.tokenResponse;
+      }
+    }
+    return this._refreshToken(resource);
+  }
 
-  protected abstract prepareRequestOptions(): WebResource;
+  /**
+   * Gets a token for the given resource, for example "https://vault.azure.net", from the same managed identity.
+   * @param resource - The resource for which the token is requested.
+   * @returns Promise with the token response.
+   */
+  public getTokenForResource(resource: string): Promise<MSITokenResponse> {
+    if (!resource || typeof resource.valueOf() !== "string") {
+      return Promise.reject(new Error("resource must be a non empty string."));
+    }
+    return this.getToken(resource);
+  }
+
+  /**
+   * Prepares and sends a request to the MSI endpoint, which responds with the access token.
+   * Subclasses written for version 3.0 override `getToken()` instead, which is still supported
+   * but bypasses the token cache.
+   * @param resource - The resource for which the token is requested.
+   * @returns Promise with the token response.
+   */
+  protected async acquireToken(resource: string): Promise<MSITokenResponse> {
+    throw new Error(`${this.constructor.name} must implement acquireToken() or getToken() to get a token for "${resource}".`);
+  }
+
+  private _refreshToken(resource: string): Promise<MSITokenResponse> {
+    let tokenRefresh = this._tokenRefreshes.get(resource);
+    if (!tokenRefresh) {
+      tokenRefresh = this.acquireToken(resource).then((tokenResponse) => {
+        this._tokenRefreshes.delete(resource);
+        logEvent(this.logger, "info", "token.network", "Acquired a token from the managed identity endpoint.", { resource });
+        const expiresOnTimestamp = _getExpiresOnTimestamp(tokenResponse);
+        if (expiresOnTimestamp === undefined) {
+          this._cachedTokens.delete(resource);
+        } else {
+          this._cachedTokens.set(resource, { tokenResponse, expiresOnTimestamp });
+        }
+        return tokenResponse;
+      }, (error) => {
+        this._tokenRefreshes.delete(resource);
+        throw error;
+      });
+      this._tokenRefreshes.set(resource, tokenRefresh);
+    }
+    return tokenRefresh;
+  }
+
+  /**
+   * Prepares the request to the MSI endpoint.
+   * @param resource - The resource for which the token is requested. Default value is `resource`.
+   */
+  protected abstract prepareRequestOptions(resource?: string): WebResource;
+
+  /**
+   * Sends the request prepared by `prepareRequestOptions()` to the MSI endpoint. Requests that fail with
+   * 404 (the identity is not available yet), 410 (the endpoint is being updated), 429 (throttling) or a 5xx
+   * status code are retried with an exponential backoff, honoring the `Retry-After` header.
+   * @param prepareRequest - Prepares the request for each attempt. Default value is `prepareRequestOptions()`.
+   * @returns Promise with the successful response. It rejects with a ManagedIdentityError when the endpoint
+   * keeps responding with an error status code.
+   */
+  protected async sendTokenRequest(prepareRequest: () => WebResource = () => this.prepareRequestOptions()): Promise<HttpOperationResponse> {
+    let totalDelayInMs = 0;
+    for (let attempt = 1; ; attempt++) {
+      const request = prepareRequest();
+      let response: HttpOperationResponse;
+      try {
+        response = await this._httpClient.sendRequest(request);
+      } catch (err) {
+        throw new ManagedIdentityError(`MSI: Failed to send the token request to "${request.url}": ${_describeError(err)}`, { cause: err });
+      }
+      if (!response.status || response.status < 400) {
+        return response;
+      }
+
+      const retryAfterInMs = _getRetryAfterInMs(response);
+      const delayInMs = _isRetryableStatus(response.status) && attempt <= this._maxRetries
+        ? (retryAfterInMs !== undefined ? retryAfterInMs : _getBackoffInMs(this._retryDelayInMs, attempt))
+        : undefined;
+      if (delayInMs === undefined || totalDelayInMs + delayInMs > this._maxTotalRetryDelayInMs) {
+        throw new ManagedIdentityError(
+          `MSI: Failed to retrieve a token from "${response.request.url}" after ${attempt} attempt(s). ` +
+          `Status code: ${response.status}. Response body: ${response.bodyAsText}`,
+          { statusCode: response.status, body: response.bodyAsText || undefined }
+        );
+      }
+
+      totalDelayInMs += delayInMs;
+      await delay(delayInMs);
+    }
+  }
 
   /**
-   * Signs a request with the Authentication header.
+   * Signs a request with the Authentication header. The token is acquired for the resource that
+   * the hostToResourceMap gives for the request URL, if any.
    *
    * @param webResource - The WebResource to be signed.
    * @returns Promise with signed WebResource.
    */
   public async signRequest(webResource: WebResource): Promise<WebResource> {
-    const tokenResponse = await this.getToken();
+    const tokenResponse = await this.getToken(getResourceForUrl(webResource.url, this.hostToResourceMap));
     webResource.headers.set(Constants.HeaderConstants.AUTHORIZATION, `${tokenResponse.tokenType} ${tokenResponse.accessToken}`);
     return webResource;
   }
+
+  /**
+   * Gets the properties of the credentials with the secret of the MSI endpoint, if any, redacted. The cached tokens are left out.
+   */
+  public toJSON(): { [key: string]: any } {
+    return redactCredentials(this);
+  }
+
+  /**
+   * Formats the credentials for `console.log()` and `util.inspect()` from {@link toJSON}.
+   */
+  public [inspect.custom](_depth: number, options: InspectOptions): string {
+    return inspectCredentials(this, options);
+  }
+}
+
+/**
+ * Gets the time at which the token expires from either `expiresOn` or `expiresIn`. Returns `undefined`
+ * when the response does not say when the token expires, in which case the token is not cached.
+ */
+function _getExpiresOnTimestamp(tokenResponse: MSITokenResponse): number | undefined {
+  const expiresOn = tokenResponse.expiresOn;
+  if (expiresOn instanceof Date && !isNaN(expiresOn.getTime())) {
+    return expiresOn.getTime();
+  }
+  if (typeof expiresOn === "number") {
+    return expiresOn * 1000;
+  }
+  if (typeof tokenResponse.expiresIn === "number" && !isNaN(tokenResponse.expiresIn)) {
+    return Date.now() + tokenResponse.expiresIn * 1000;
+  }
+  return undefined;
+}
+
+function _describeError(err: any): string {
+  if (err && err.message) {
+    return err.message;
+  }
+  return err && (err.error_description || err.error) || String(err);
+}
+
+function _isRetryableStatus(status: number): boolean {
+  return status === 404 || status === 410 || status === 429 || (status >= 500 && status <= 599);
+}
+
+/**
+ * Gets the delay requested by the `Retry-After` header, which holds either a number of seconds or an HTTP date.
+ */
+function _getRetryAfterInMs(response: HttpOperationResponse): number | undefined {
+  const retryAfter = response.headers && response.headers.get("retry-after");
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Doubles the delay with every attempt and adds a random jitter of up to 20% in either direction.
+ */
+function _getBackoffInMs(retryDelayInMs: number, attempt: number): number {
+  const exponentialDelay = retryDelayInMs * Math.pow(2, attempt - 1);
+  return Math.round(exponentialDelay * (0.8 + Math.random() * 0.4));
 }
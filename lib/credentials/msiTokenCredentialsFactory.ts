@@ -0,0 +1,114 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { DefaultHttpClient, WebResource } from "@azure/ms-rest-js";
+import { MSITokenCredentials, MSIOptions, MSISource } from "./msiTokenCredentials";
+import { MSIAppServiceTokenCredentials } from "./msiAppServiceTokenCredentials";
+import { MSIArcTokenCredentials } from "./msiArcTokenCredentials";
+import { MSICloudShellTokenCredentials } from "./msiCloudShellTokenCredentials";
+import { MSIServiceFabricTokenCredentials } from "./msiServiceFabricTokenCredentials";
+import { MSIVmTokenCredentials } from "./msiVmTokenCredentials";
+import { CredentialUnavailableError } from "../util/authErrors";
+import { logEvent } from "../util/logger";
+
+const imdsEndpoint = "http://169.254.169.254/metadata/identity/oauth2/token";
+
+/**
+ * Defines the optional parameters for authentication with MSI in an automatically detected hosting environment.
+ */
+export interface MSIAutoDetectOptions extends MSIOptions {
+  /**
+   * The clientId of the user-assigned managed identity you would like the token for.
+   * It is not supported on servers connected with Azure Arc.
+   */
+  clientId?: string;
+  /**
+   * The time to wait for the Azure Instance Metadata Service (IMDS) to respond, when none of the environment
+   * variables set by the other hosting environments is present. Default value is 1000 milliseconds.
+   */
+  imdsProbeTimeoutInMs?: number;
+}
+
+/**
+ * Detects the hosting environment from the environment variables set by each host:
+ * - Azure Arc sets `IDENTITY_ENDPOINT` and `IMDS_ENDPOINT`.
+ * - Service Fabric sets `IDENTITY_ENDPOINT`, `IDENTITY_HEADER` and `IDENTITY_SERVER_THUMBPRINT`.
+ * - App Service sets `IDENTITY_ENDPOINT` or `MSI_ENDPOINT` along with `IDENTITY_HEADER`, `IDENTITY_SECRET` or `MSI_SECRET`.
+ * - Cloud Shell sets `MSI_ENDPOINT` only.
+ *
+ * @returns The detected hosting environment, or `undefined` when none of these variables are set.
+ */
+export function getMSISourceFromEnvironment(): MSISource | undefined {
+  const env = process.env;
+  if (env["IDENTITY_ENDPOINT"] && env["IMDS_ENDPOINT"]) {
+    return "Arc";
+  }
+  if (env["IDENTITY_ENDPOINT"] && env["IDENTITY_HEADER"] && env["IDENTITY_SERVER_THUMBPRINT"]) {
+    return "ServiceFabric";
+  }
+  if ((env["IDENTITY_ENDPOINT"] || env["MSI_ENDPOINT"]) && (env["IDENTITY_HEADER"] || env["IDENTITY_SECRET"] || env["MSI_SECRET"])) {
+    return "AppService";
+  }
+  if (env["MSI_ENDPOINT"]) {
+    return "CloudShell";
+  }
+  return undefined;
+}
+
+/**
+ * Detects the hosting environment from the environment variables, see {@link getMSISourceFromEnvironment}. When none
+ * of them is set, the Azure Instance Metadata Service (IMDS) of virtual machines is probed with a short timeout.
+ *
+ * @param options - Optional parameters.
+ * @returns A promise that resolves to the detected hosting environment, and rejects with a CredentialUnavailableError
+ * when no managed identity endpoint is available.
+ */
+export async function detectMSISource(options: MSIAutoDetectOptions = {}): Promise<MSISource> {
+  const source = getMSISourceFromEnvironment();
+  if (source) {
+    logEvent(options.logger, "info", "msi.source", `Detected the "${source}" managed identity endpoint from the environment variables.`, { source });
+    return source;
+  }
+
+  const timeoutInMs = options.imdsProbeTimeoutInMs === undefined ? 1000 : options.imdsProbeTimeoutInMs;
+  const probe = new WebResource(`${imdsEndpoint}?api-version=2018-02-01`, "GET");
+  probe.timeout = timeoutInMs;
+  try {
+    // IMDS answers a request without the "Metadata" header with an error status code, which is enough to know it is there.
+    await (options.httpClient || new DefaultHttpClient()).sendRequest(probe);
+    logEvent(options.logger, "info", "msi.source", "Detected the \"VM\" managed identity endpoint, the Azure Instance Metadata Service responded.",
+      { source: "VM" });
+    return "VM";
+  } catch (err) {
+    throw new CredentialUnavailableError("No managed identity endpoint is available. None of the environment variables " +
+      "IDENTITY_ENDPOINT or MSI_ENDPOINT is set, and the Azure Instance Metadata Service did not respond within " +
+      `${timeoutInMs}ms: ${err.message || err}`, { cause: err });
+  }
+}
+
+/**
+ * Creates the MSITokenCredentials subclass for the given hosting environment.
+ *
+ * @param options - Optional parameters.
+ * @param source - The hosting environment. Default value is the environment detected by {@link getMSISourceFromEnvironment},
+ * or "VM" when none is detected.
+ */
+export function createMSITokenCredentials(options: MSIAutoDetectOptions = {}, source: MSISource = getMSISourceFromEnvironment() || "VM"): MSITokenCredentials {
+  switch (source) {
+    case "Arc":
+      if (options.clientId) {
+        throw new Error("User-assigned managed identities are not supported on servers connected with Azure Arc.");
+      }
+      return new MSIArcTokenCredentials({ ...options });
+    case "ServiceFabric":
+      return new MSIServiceFabricTokenCredentials({ ...options });
+    case "AppService":
+      return new MSIAppServiceTokenCredentials({ ...options });
+    case "CloudShell":
+      return new MSICloudShellTokenCredentials({ ...options });
+    case "VM":
+      return new MSIVmTokenCredentials({ ...options });
+    default:
+      throw new Error(`"${source}" is not a known managed identity source.`);
+  }
+}
@@ -1,8 +1,9 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
-import { MSITokenCredentials, MSIOptions, MSITokenResponse } from "./msiTokenCredentials";
+import { MSITokenCredentials, MSIOptions, MSISource, MSITokenResponse } from "./msiTokenCredentials";
 import { RequestPrepareOptions, WebResource, URLBuilder, HttpMethods } from "@azure/ms-rest-js";
+import { ManagedIdentityError } from "../util/authErrors";
 
 /**
  * Defines the optional parameters for authentication with MSI for Virtual Machine.
@@ -87,26 +88,34 @@ export class MSIVmTokenCredentials extends MSITokenCredentials {
     this.identityId = options.identityId;
   }
 
+  /**
+   * The hosting environment whose managed identity endpoint provides the tokens.
+   */
+  public get source(): MSISource {
+    return "VM";
+  }
+
   /**
    * Prepares and sends a POST request to a service endpoint hosted on the Azure VM, which responds with the access token.
+   * @param resource - The resource for which the token is requested.
    * @returns Promise with the tokenResponse (tokenType and accessToken are the two important properties).
    */
-  async getToken(): Promise<MSITokenResponse> {
-    const reqOptions = this.prepareRequestOptions();
-
-    const opRes = await this._httpClient.sendRequest(reqOptions);
+  protected async acquireToken(resource: string): Promise<MSITokenResponse> {
+    const opRes = await this.sendTokenRequest(() => this.prepareRequestOptions(resource));
     const result = this.parseTokenResponse(opRes.bodyAsText!) as MSITokenResponse;
     if (!result.tokenType) {
-      throw new Error(`Invalid token response, did not find tokenType. Response body is: ${opRes.bodyAsText}`);
+      throw new ManagedIdentityError(`Invalid token response, did not find tokenType. Response body is: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
     } else if (!result.accessToken) {
-      throw new Error(`Invalid token response, did not find accessToken. Response body is: ${opRes.bodyAsText}`);
+      throw new ManagedIdentityError(`Invalid token response, did not find accessToken. Response body is: ${opRes.bodyAsText}`,
+        { statusCode: opRes.status, body: opRes.bodyAsText || undefined });
     }
 
 
     return result;
   }
 
-  protected prepareRequestOptions(): WebResource {
+  protected prepareRequestOptions(resource: string = this.resource): WebResource {
     const reqOptions: RequestPrepareOptions = {
       url: this.msiEndpoint,
       headers: {
@@ -116,7 +125,7 @@ export class MSIVmTokenCredentials extends MSITokenCredentials {
       method: this.httpMethod,
       queryParameters: {
         "api-version": this.apiVersion,
-        "resource": this.resource,
+        "resource": resource,
         "object_id": this.objectId,
         "client_id": this.clientId,
         "mi_res_id": this.identityId
@@ -10,5 +10,5 @@ export interface TokenResponse {
 }
 
 export interface TokenClientCredentials extends ServiceClientCredentials {
-  getToken<TTokenResponse extends TokenResponse>(): Promise<TokenResponse | TTokenResponse>;
+  getToken<TTokenResponse extends TokenResponse>(resource?: string): Promise<TokenResponse | TTokenResponse>;
 }
@@ -0,0 +1,110 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { inspect, InspectOptions } from "util";
+import { AccessToken, GetTokenOptions, TokenCredential } from "@azure/core-auth";
+import { TokenClientCredentials, TokenResponse } from "./tokenClientCredentials";
+import { getResourceFromScopes } from "../util/resourceMap";
+import { inspectCredentials, redactCredentials } from "../util/redaction";
+
+/**
+ * Adapts any credential of this package, for example `ApplicationTokenCredentials`, `MSITokenCredentials` or
+ * `AzureCliCredentials`, to the `TokenCredential` interface of `@azure/core-auth` expected by the newer Azure SDK clients.
+ * The scopes requested by the clients are converted to the resource of the token, for example
+ * "https://vault.azure.net/.default" to "https://vault.azure.net".
+ */
+export class TokenCredentialAdapter implements TokenCredential {
+  /**
+   * The credentials providing the tokens.
+   */
+  readonly credentials: TokenClientCredentials;
+
+  /**
+   * Creates a new TokenCredentialAdapter object.
+   *
+   * @param credentials - The credentials providing the tokens.
+   */
+  public constructor(credentials: TokenClientCredentials) {
+    if (!credentials || typeof credentials.getToken !== "function") {
+      throw new Error("credentials must be an object with a getToken method.");
+    }
+    this.credentials = credentials;
+  }
+
+  /**
+   * Gets a token for the resource of the given scopes from the credentials.
+   *
+   * @param scopes - The scope or scopes for which the token is requested. All of them must belong to the same resource.
+   * @param options - The options of the request. The request is rejected with an "AbortError" when the abortSignal is signaled.
+   * @returns A promise that resolves to the access token.
+   */
+  public async getToken(scopes: string | string[], options: GetTokenOptions = {}): Promise<AccessToken> {
+    const resource = getResourceFromScopes(scopes);
+    const abortSignal = options.abortSignal;
+    if (!abortSignal) {
+      return _toAccessToken(await this.credentials.getToken(resource));
+    }
+    if (abortSignal.aborted) {
+      throw _createAbortError();
+    }
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(_createAbortError());
+      abortSignal.addEventListener("abort", onAbort);
+    });
+    try {
+      return _toAccessToken(await Promise.race([this.credentials.getToken(resource), aborted]));
+    } finally {
+      abortSignal.removeEventListener("abort", onAbort!);
+    }
+  }
+
+  /**
+   * Gets the properties of the adapter. The wrapped credentials redact their own secrets.
+   */
+  public toJSON(): { [key: string]: any } {
+    return redactCredentials(this);
+  }
+
+  /**
+   * Formats the adapter for `console.log()` and `util.inspect()` from {@link toJSON}.
+   */
+  public [inspect.custom](_depth: number, options: InspectOptions): string {
+    return inspectCredentials(this, options);
+  }
+}
+
+function _toAccessToken(tokenResponse: TokenResponse): AccessToken {
+  return {
+    token: tokenResponse.accessToken,
+    expiresOnTimestamp: _getExpiresOnTimestamp(tokenResponse)
+  };
+}
+
+/**
+ * Gets the time at which the token expires from either `expiresOn` or `expiresIn`. When the response does not
+ * say when the token expires, it is considered expired, so that the clients request it again every time.
+ */
+function _getExpiresOnTimestamp(tokenResponse: TokenResponse): number {
+  const expiresOn = tokenResponse.expiresOn;
+  if (expiresOn instanceof Date && !isNaN(expiresOn.getTime())) {
+    return expiresOn.getTime();
+  }
+  if (typeof expiresOn === "string" && !isNaN(Date.parse(expiresOn))) {
+    return Date.parse(expiresOn);
+  }
+  if (typeof expiresOn === "number") {
+    return expiresOn * 1000;
+  }
+  if (typeof tokenResponse.expiresIn === "number" && !isNaN(tokenResponse.expiresIn)) {
+    return Date.now() + tokenResponse.expiresIn * 1000;
+  }
+  return Date.now();
+}
+
+function _createAbortError(): Error {
+  const error = new Error("The token request was aborted.");
+  error.name = "AbortError";
+  return error;
+}
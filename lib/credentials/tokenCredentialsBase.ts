@@ -1,10 +1,16 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
+import { inspect, InspectOptions } from "util";
 import { Constants as MSRestConstants, WebResource } from "@azure/ms-rest-js";
 import { Environment } from "@azure/ms-rest-azure-env";
 import { TokenAudience } from "../util/authConstants";
 import { TokenClientCredentials } from "./tokenClientCredentials";
+import { createAdalError } from "../util/authErrors";
+import { HostToResourceMap, getResourceForUrl } from "../util/resourceMap";
+import { AuthLogger, logEvent } from "../util/logger";
+import { inspectCredentials, redactCredentials } from "../util/redaction";
+import { createAuthenticationContext } from "../util/environmentUtils";
 import {
   TokenResponse,
   AuthenticationContext,
@@ -15,6 +21,19 @@ import {
 
 export abstract class TokenCredentialsBase implements TokenClientCredentials {
   public authContext: AuthenticationContext;
+  /**
+   * Maps the host of a request URL to the resource for which the token signing the request is acquired,
+   * see {@link createHostToResourceMap}. Requests to other hosts are signed with a token for the tokenAudience.
+   */
+  public hostToResourceMap?: HostToResourceMap;
+  /**
+   * Receives the log entries of these credentials. Default value is the logger set with `setLogger()`, if any.
+   */
+  public logger?: AuthLogger;
+  /**
+   * The pending token requests, by domain and resource.
+   */
+  private readonly _pendingTokenRequests = new Map<string, Promise<TokenResponse>>();
 
   public constructor(
     public readonly clientId: string,
@@ -41,57 +60,106 @@ export abstract class TokenCredentialsBase implements TokenClientCredentials {
       );
     }
 
-    const authorityUrl =
-      this.environment.activeDirectoryEndpointUrl + this.domain;
-    this.authContext = new AuthenticationContext(
-      authorityUrl,
-      this.environment.validateAuthority,
-      this.tokenCache
-    );
+    this.authContext = createAuthenticationContext(this.environment, this.domain, this.tokenCache);
   }
 
   public setDomain(domain: string): void {
     this.domain = domain;
-    const authorityUrl =
-      this.environment.activeDirectoryEndpointUrl + this.domain;
-    this.authContext = new AuthenticationContext(
-      authorityUrl,
-      this.environment.validateAuthority,
-      this.tokenCache
-    );
+    this.authContext = createAuthenticationContext(this.environment, this.domain, this.tokenCache);
+  }
+
+  /**
+   * Creates a copy of the credentials that gets tokens from another tenant, for example to list the subscriptions of
+   * every tenant of a user. The copy shares the token cache and the logger, while these credentials are left unchanged.
+   *
+   * @param domain - The domain or tenant id of the copy.
+   * @returns The copy of the credentials.
+   */
+  public withDomain(domain: string): this {
+    const credentials: this = Object.create(Object.getPrototypeOf(this));
+    Object.assign(credentials, this, this.getUnsharedState());
+    credentials.setDomain(domain);
+    return credentials;
+  }
+
+  /**
+   * Gets the initial value of the private state that a copy made by {@link withDomain} must not share with these
+   * credentials, like the pending token requests. Subclasses add their own.
+   */
+  protected getUnsharedState(): { [key: string]: any } {
+    return { _pendingTokenRequests: new Map<string, Promise<TokenResponse>>() };
   }
 
-  protected getActiveDirectoryResourceId(): string {
-    let resource = this.environment.activeDirectoryResourceId;
-    if (this.tokenAudience) {
-      resource = this.tokenAudience;
-      if (this.tokenAudience.toLowerCase() === "graph") {
-        resource = this.environment.activeDirectoryGraphResourceId as string;
-      } else if (this.tokenAudience.toLowerCase() === "batch") {
-        resource = this.environment.batchResourceId as string;
+  /**
+   * Resolves the given resource, or the tokenAudience when none is given, to a resource uri.
+   * The values 'graph' and 'batch' are resolved to the resources of the environment.
+   *
+   * @param resource - The resource or token audience. Default value is the tokenAudience.
+   */
+  protected getActiveDirectoryResourceId(resource?: string): string {
+    const tokenAudience = resource || this.tokenAudience;
+    let result = this.environment.activeDirectoryResourceId;
+    if (tokenAudience) {
+      result = tokenAudience;
+      if (tokenAudience.toLowerCase() === "graph") {
+        result = this.environment.activeDirectoryGraphResourceId as string;
+      } else if (tokenAudience.toLowerCase() === "batch") {
+        result = this.environment.batchResourceId as string;
       }
     }
-    return resource;
+    return result;
+  }
+
+  /**
+   * Shares a single pending token request between the concurrent callers asking for a token for the same domain and resource,
+   * so that parallel requests signed with these credentials acquire the token once instead of once per request.
+   *
+   * @param resource - The resource for which the token is requested. Default value is the tokenAudience.
+   * @param acquireToken - Gets the token from the cache or from Azure Active Directory.
+   * @returns The pending token request.
+   */
+  protected shareTokenRequest(resource: string | undefined, acquireToken: () => Promise<TokenResponse>): Promise<TokenResponse> {
+    const key = `${this.domain} ${this.getActiveDirectoryResourceId(resource)}`;
+    let tokenRequest = this._pendingTokenRequests.get(key);
+    if (!tokenRequest) {
+      tokenRequest = acquireToken().then((tokenResponse) => {
+        this._pendingTokenRequests.delete(key);
+        return tokenResponse;
+      }, (error) => {
+        this._pendingTokenRequests.delete(key);
+        throw error;
+      });
+      this._pendingTokenRequests.set(key, tokenRequest);
+    }
+    return tokenRequest;
+  }
+
+  /**
+   * Logs that a token was acquired from Azure Active Directory rather than from the token cache.
+   *
+   * @param resource - The resource for which the token was acquired. Default value is the tokenAudience.
+   */
+  protected logTokenAcquired(resource?: string): void {
+    logEvent(this.logger, "info", "token.network", "Acquired a token from Azure Active Directory.",
+      { clientId: this.clientId, domain: this.domain, resource: this.getActiveDirectoryResourceId(resource) });
   }
 
-  protected getTokenFromCache(username?: string): Promise<TokenResponse> {
+  protected getTokenFromCache(username?: string, resource?: string): Promise<TokenResponse> {
     const self = this;
-    const resource = this.getActiveDirectoryResourceId();
+    const resourceId = this.getActiveDirectoryResourceId(resource);
 
     return new Promise<TokenResponse>((resolve, reject) => {
       self.authContext.acquireToken(
-        resource,
+        resourceId,
         username!,
         self.clientId,
         (error: Error, tokenResponse: TokenResponse | ErrorResponse) => {
-          if (error) {
-            return reject(error);
-          }
-
-          if (tokenResponse.error || tokenResponse.errorDescription) {
-            return reject(tokenResponse);
+          if (error || tokenResponse.error || tokenResponse.errorDescription) {
+            return reject(createAdalError(error, tokenResponse));
           }
 
+          logEvent(self.logger, "verbose", "token.cache", "Got the token from the token cache.",
+            { clientId: self.clientId, domain: self.domain, resource: resourceId });
           return resolve(tokenResponse as TokenResponse);
         }
       );
@@ -100,22 +168,57 @@ export abstract class TokenCredentialsBase implements TokenClientCredentials {
 
   /**
    * Tries to get the token from cache initially. If that is unsuccessful then it tries to get the token from ADAL.
+   * Tokens are cached per resource. Implementations share the pending request of concurrent calls with {@link shareTokenRequest}.
+   * Implementations give the resource a default value, so that `getToken.length` is 0 and ms-rest-js does not mistake
+   * the credentials for a `TokenCredential` of `@azure/core-auth`, which it would never ask to sign requests.
+   *
+   * @param resource - The resource for which the token is requested. Default value is the tokenAudience.
+   * @returns The tokenResponse (tokenType and accessToken are the two important properties).
+   */
+  public abstract async getToken(resource?: string): Promise<TokenResponse>;
+
+  /**
+   * Gets a token for the given resource, for example "https://vault.azure.net", with the same credentials.
    *
+   * @param resource - The resource for which the token is requested.
    * @returns The tokenResponse (tokenType and accessToken are the two important properties).
    */
-  public abstract async getToken(): Promise<TokenResponse>;
+  public getTokenForResource(resource: string): Promise<TokenResponse> {
+    if (!resource || typeof resource.valueOf() !== "string") {
+      return Promise.reject(new Error("resource must be a non empty string."));
+    }
+    return this.getToken(resource);
+  }
 
   /**
-   * Signs a request with the Authentication header.
+   * Signs a request with the Authentication header. The token is acquired for the resource that
+   * the hostToResourceMap gives for the request URL, if any.
    *
    * @param webResource - The WebResource to be signed.
    */
   public async signRequest(webResource: WebResource): Promise<WebResource> {
-    const tokenResponse = await this.getToken();
+    const tokenResponse = await this.getToken(getResourceForUrl(webResource.url, this.hostToResourceMap));
+    // ADFS returns the token type in lower case, which some services reject.
+    const tokenType = /^bearer$/i.test(tokenResponse.tokenType) ? "Bearer" : tokenResponse.tokenType;
     webResource.headers.set(
       MSRestConstants.HeaderConstants.AUTHORIZATION,
-      `${tokenResponse.tokenType} ${tokenResponse.accessToken}`
+      `${tokenType} ${tokenResponse.accessToken}`
     );
     return webResource;
   }
+
+  /**
+   * Gets the properties of the credentials with the secrets, like the client secret, the password or the certificate,
+   * redacted and the token cache replaced by its type, so that `JSON.stringify()` does not leak them in error reports.
+   */
+  public toJSON(): { [key: string]: any } {
+    return redactCredentials(this);
+  }
+
+  /**
+   * Formats the credentials for `console.log()` and `util.inspect()` from {@link toJSON}.
+   */
+  public [inspect.custom](_depth: number, options: InspectOptions): string {
+    return inspectCredentials(this, options);
+  }
 }
@@ -1,7 +1,9 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
+import { inspect, InspectOptions } from "util";
 import { ApiKeyCredentials } from "@azure/ms-rest-js";
+import { inspectCredentials, redactCredentials } from "../util/redaction";
 
 /**
  * Creates a new CognitiveServicesCredentials object.
@@ -26,4 +28,18 @@ export class TopicCredentials extends ApiKeyCredentials {
 
     super(options);
   }
+
+  /**
+   * Gets the properties of the credentials with the topic key redacted.
+   */
+  public toJSON(): { [key: string]: any } {
+    return redactCredentials(this);
+  }
+
+  /**
+   * Formats the credentials for `console.log()` and `util.inspect()` from {@link toJSON}.
+   */
+  public [inspect.custom](_depth: number, options: InspectOptions): string {
+    return inspectCredentials(this, options);
+  }
 }
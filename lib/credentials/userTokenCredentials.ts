@@ -4,12 +4,18 @@
 import { TokenCredentialsBase } from "./tokenCredentialsBase";
 import { Environment } from "@azure/ms-rest-azure-env";
 import { TokenAudience } from "../util/authConstants";
+import { createAdalError, InvalidCredentialsError } from "../util/authErrors";
+import { isAdfs } from "../util/environmentUtils";
 import { TokenResponse, ErrorResponse, TokenCache } from "adal-node";
 
 export class UserTokenCredentials extends TokenCredentialsBase {
 
   readonly username: string;
   readonly password: string;
+  /**
+   * The user id of the tokens, when ADFS identifies the user by another name than the username.
+   */
+  private _tokenUserId?: string;
 
   /**
    * Creates a new UserTokenCredentials object.
@@ -57,10 +63,10 @@ export class UserTokenCredentials extends TokenCredentialsBase {
     this.password = password;
   }
 
-  private crossCheckUserNameWithToken(username: string, userIdFromToken: string): boolean {
+  private crossCheckUserNameWithToken(username: string, userIdFromToken: string | undefined): boolean {
     // to maintain the casing consistency between "azureprofile.json" and token cache. (RD 1996587)
     // use the "userId" here, which should be the same with "username" except the casing.
-    return (username.toLowerCase() === userIdFromToken.toLowerCase());
+    return !!userIdFromToken && (username.toLowerCase() === userIdFromToken.toLowerCase());
   }
 
   /**
@@ -68,29 +74,35 @@ export class UserTokenCredentials extends TokenCredentialsBase {
    *
    * @returns The tokenResponse (tokenType and accessToken are the two important properties).
    */
-  public async getToken(): Promise<TokenResponse> {
+  public getToken(resource: string | undefined = undefined): Promise<TokenResponse> {
+    return this.shareTokenRequest(resource, () => this._getToken(resource));
+  }
+
+  private async _getToken(resource?: string): Promise<TokenResponse> {
     try {
-      return await this.getTokenFromCache(this.username);
+      return await this.getTokenFromCache(this._tokenUserId || this.username, resource);
     } catch (error) {
       const self = this;
-      const resource = this.getActiveDirectoryResourceId();
+      const resourceId = this.getActiveDirectoryResourceId(resource);
 
       return new Promise<TokenResponse>((resolve, reject) => {
-        self.authContext.acquireTokenWithUsernamePassword(resource, self.username, self.password, self.clientId,
+        self.authContext.acquireTokenWithUsernamePassword(resourceId, self.username, self.password, self.clientId,
           (error: Error, tokenResponse: TokenResponse | ErrorResponse) => {
-            if (error) {
-              return reject(error);
-            }
-
-            if (tokenResponse.error || tokenResponse.errorDescription) {
-              return reject(tokenResponse);
+            if (error || tokenResponse.error || tokenResponse.errorDescription) {
+              return reject(createAdalError(error, tokenResponse));
             }
 
             tokenResponse = tokenResponse as TokenResponse;
-            if (self.crossCheckUserNameWithToken(self.username, tokenResponse.userId!)) {
+            if (self.crossCheckUserNameWithToken(self.username, tokenResponse.userId)) {
+              self.logTokenAcquired(resource);
+              return resolve((tokenResponse as TokenResponse));
+            } else if (isAdfs(self.environment, self.domain)) {
+              // ADFS identifies the user by its unique name, like "CONTOSO\user", or not at all.
+              self._tokenUserId = tokenResponse.userId;
+              self.logTokenAcquired(resource);
               return resolve((tokenResponse as TokenResponse));
             } else {
-              return reject(`The userId "${tokenResponse.userId}" in access token doesn't match the username "${self.username}" provided during authentication.`);
+              return reject(new InvalidCredentialsError(`The userId "${tokenResponse.userId}" in access token doesn't match the username "${self.username}" provided during authentication.`));
             }
           });
       });
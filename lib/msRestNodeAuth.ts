@@ -2,32 +2,139 @@
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
 export { ApplicationTokenCredentials } from "./credentials/applicationTokenCredentials";
-export { ApplicationTokenCertificateCredentials } from "./credentials/applicationTokenCertificateCredentials";
-export { DeviceTokenCredentials } from "./credentials/deviceTokenCredentials";
+export {
+  ApplicationTokenCertificateCredentials,
+  ApplicationTokenCertificateCredentialsOptions
+} from "./credentials/applicationTokenCertificateCredentials";
+export {
+  ClientAssertionCredentials,
+  ClientAssertionCredentialsOptions,
+  ClientAssertionProvider
+} from "./credentials/clientAssertionCredentials";
+export { ChainedTokenCredentials, CredentialSource } from "./credentials/chainedTokenCredentials";
+export {
+  CoreAuthTokenCredentials,
+  CoreAuthTokenCredentialsOptions
+} from "./credentials/coreAuthTokenCredentials";
+export { DefaultAzureCredentials, DefaultAzureCredentialsOptions } from "./credentials/defaultAzureCredentials";
+export { EnvironmentCredentials } from "./credentials/environmentCredentials";
+export { CachedAccountCredentialsOptions, DeviceTokenCredentials } from "./credentials/deviceTokenCredentials";
 export { createAuthenticator } from "./credentials/keyVaultFactory";
 export { MSIAppServiceOptions, MSIAppServiceTokenCredentials } from "./credentials/msiAppServiceTokenCredentials";
-export { MSIOptions, MSITokenCredentials, MSITokenResponse } from "./credentials/msiTokenCredentials";
+export { MSIArcOptions, MSIArcTokenCredentials } from "./credentials/msiArcTokenCredentials";
+export { MSICloudShellOptions, MSICloudShellTokenCredentials } from "./credentials/msiCloudShellTokenCredentials";
+export { MSIServiceFabricOptions, MSIServiceFabricTokenCredentials } from "./credentials/msiServiceFabricTokenCredentials";
+export { MSIOptions, MSISource, MSITokenCredentials, MSITokenResponse } from "./credentials/msiTokenCredentials";
 export { MSIVmOptions, MSIVmTokenCredentials } from "./credentials/msiVmTokenCredentials";
+export {
+  MSIAutoDetectOptions,
+  createMSITokenCredentials,
+  detectMSISource,
+  getMSISourceFromEnvironment
+} from "./credentials/msiTokenCredentialsFactory";
+export { TokenCredentialAdapter } from "./credentials/tokenCredentialAdapter";
+export { TokenClientCredentials } from "./credentials/tokenClientCredentials";
 export { TokenCredentialsBase } from "./credentials/tokenCredentialsBase";
 export { UserTokenCredentials } from "./credentials/userTokenCredentials";
+export { FileTokenCache, FileTokenCacheOptions } from "./tokenCache/fileTokenCache";
+export { EncryptedTokenCache, EncryptedTokenCacheOptions } from "./tokenCache/encryptedTokenCache";
+export { CachedAccount, ListCachedAccountsOptions, listCachedAccounts } from "./tokenCache/cachedAccounts";
+export {
+  CacheKeyProvider,
+  createCallbackCacheKeyProvider,
+  createEnvironmentCacheKeyProvider,
+  createFileCacheKeyProvider
+} from "./tokenCache/cacheKeyProvider";
 export { AuthConstants, TokenAudience } from "./util/authConstants";
-export { LinkedSubscription, LinkedUser, UserType, buildTenantList } from "./subscriptionManagement/subscriptionUtils";
+export {
+  AuthFile,
+  AuthFileEnvironment,
+  AuthFileProfile,
+  AuthFileProfileBase,
+  AzureCliAuthFileProfile,
+  DeviceCodeAuthFileProfile,
+  ManagedIdentityAuthFileProfile,
+  ServicePrincipalAuthFileProfile,
+  UserAuthFileProfile,
+  parseAuthFile,
+  selectAuthFileProfile
+} from "./util/authFile";
+export {
+  findEnvironment,
+  findEnvironmentByAuthority,
+  loadEnvironmentFromMetadata,
+  LoadEnvironmentOptions
+} from "./util/environmentUtils";
+export { BrowserOpener } from "./util/authorizationCodeFlow";
+export {
+  AuthLogEntry,
+  AuthLogger,
+  LogLevel,
+  createConsoleLogger,
+  getLogger,
+  setLogger
+} from "./util/logger";
+export { redactSecrets, redactWebResourceHeaders } from "./util/redaction";
+export {
+  HostToResourceMap,
+  createHostToResourceMap,
+  getResourceForUrl,
+  getResourceFromScopes,
+  getScopeFromResource
+} from "./util/resourceMap";
+export {
+  AggregateAuthenticationError,
+  AuthFileError,
+  AuthFileIssue,
+  AuthenticationError,
+  AuthenticationErrorOptions,
+  AzureCliError,
+  AzureCliErrorOptions,
+  ChainedCredentialFailure,
+  CredentialUnavailableError,
+  InvalidCredentialsError,
+  ManagedIdentityError,
+  ManagedIdentityErrorOptions,
+  ResourceManagerError,
+  TokenCacheError
+} from "./util/authErrors";
+export {
+  LinkedSubscription,
+  LinkedTenant,
+  LinkedUser,
+  SubscriptionDiscoveryOptions,
+  SubscriptionDiscoveryResult,
+  TenantDiscoveryFailure,
+  UserType,
+  buildTenantList,
+  discoverSubscriptions,
+  listTenants
+} from "./subscriptionManagement/subscriptionUtils";
 export {
   AzureCliCredentials,
   CliAccessToken,
   ListAllSubscriptionOptions
 } from "./credentials/azureCliCredentials";
 export {
-  AuthResponse, LoginWithAuthFileOptions, InteractiveLoginOptions,
-  AzureTokenCredentialsOptions, LoginWithUsernamePasswordOptions,
+  AuthResponse, LoginWithAuthFileOptions, InteractiveLoginOptions, DeviceCodeInfo, BrowserLoginOptions,
+  AzureTokenCredentialsOptions, LoginWithUsernamePasswordOptions, LoginWithWorkloadIdentityOptions,
   interactive as interactiveLogin,
   withInteractiveWithAuthResponse as interactiveLoginWithAuthResponse,
+  withBrowser as loginWithBrowser,
+  withBrowserWithAuthResponse as loginWithBrowserWithAuthResponse,
   withUsernamePassword as loginWithUsernamePassword,
   withUsernamePasswordWithAuthResponse as loginWithUsernamePasswordWithAuthResponse,
   withServicePrincipalSecret as loginWithServicePrincipalSecret,
   withServicePrincipalSecretWithAuthResponse as loginWithServicePrincipalSecretWithAuthResponse,
   withAuthFile as loginWithAuthFile,
   withAuthFileWithAuthResponse as loginWithAuthFileWithAuthResponse,
+  withAuthFileProfile as loginWithAuthFileProfile,
+  withAuthFileProfileWithAuthResponse as loginWithAuthFileProfileWithAuthResponse,
+  withEnvironment as loginWithEnvironment,
+  withEnvironmentWithAuthResponse as loginWithEnvironmentWithAuthResponse,
+  withWorkloadIdentity as loginWithWorkloadIdentity,
+  withWorkloadIdentityWithAuthResponse as loginWithWorkloadIdentityWithAuthResponse,
+  loginWithMSI,
   loginWithVmMSI,
   loginWithAppServiceMSI,
   withServicePrincipalCertificate as loginWithServicePrincipalCertificate,
@@ -5,6 +5,9 @@ import * as msRest from "@azure/ms-rest-js";
 import { TokenCredentialsBase } from "../credentials/tokenCredentialsBase";
 import { ApplicationTokenCredentialsBase } from "../credentials/applicationTokenCredentialsBase";
 import { AuthConstants } from "../util/authConstants";
+import { ResourceManagerError } from "../util/authErrors";
+import { logEvent } from "../util/logger";
+import { isAdfs } from "../util/environmentUtils";
 
 /**
  * Provides information about user type. It can currently be "user" or "servicePrincipal".
@@ -70,73 +73,287 @@ export interface LinkedSubscription {
   readonly [x: string]: any;
 }
 
+/**
+ * Provides information about a tenant of the account, as listed by Azure Resource Manager.
+ */
+export interface LinkedTenant {
+  /**
+   * The tenant id, usually a GUID.
+   */
+  readonly id: string;
+  /**
+   * The display name of the tenant, for example "Contoso".
+   */
+  readonly displayName?: string;
+  /**
+   * The default domain of the tenant, for example "contoso.onmicrosoft.com".
+   */
+  readonly defaultDomain?: string;
+  /**
+   * The domains of the tenant.
+   */
+  readonly domains?: string[];
+  /**
+   * The category of the tenant: "Home" for the home tenant of the account, "ProjectedBy" or "ManagedBy".
+   */
+  readonly tenantCategory?: string;
+  /**
+   * The country or region code of the tenant, for example "US".
+   */
+  readonly countryCode?: string;
+  /**
+   * Placeholder for unknown properties.
+   */
+  readonly [x: string]: any;
+}
+
+/**
+ * Lists the tenants in which the account of the credentials exists, following the `nextLink` of every page.
+ *
+ * @param credentials - The credentials.
+ * @param apiVersion - The api-version of Azure Resource Manager. Default value is "2020-01-01", the first version
+ * returning the display name and the domains of the tenants.
+ * @returns A promise that resolves to the tenants and rejects with a ResourceManagerError.
+ */
+export async function listTenants(credentials: TokenCredentialsBase, apiVersion = "2020-01-01"): Promise<LinkedTenant[]> {
+  const tenants = await _listAllPages(credentials, `tenants?api-version=${apiVersion}`);
+  return tenants.map((tenant: any) => {
+    const { tenantId, id, ...properties } = tenant;
+    return { ...properties, id: tenantId } as LinkedTenant;
+  });
+}
+
+/**
+ * Gets the tenants used to discover the subscriptions of the credentials: the tenant of their domain, or else the tenants
+ * listed by {@link listTenants}. Only the id is known in the former case. ADFS has no tenants to list, its single
+ * tenant is "adfs". A failure to list the tenants is logged and results in an empty list.
+ *
+ * @param credentials - The credentials.
+ * @param apiVersion - The api-version of Azure Resource Manager. Default value is "2020-01-01".
+ * @returns A promise that resolves to the tenants.
+ */
+export async function getTenantsOfCredentials(credentials: TokenCredentialsBase, apiVersion = "2020-01-01"): Promise<LinkedTenant[]> {
+  if (isAdfs(credentials.environment, credentials.domain)) {
+    return [{ id: AuthConstants.ADFS_TENANT }];
+  }
+  if (credentials.domain && credentials.domain !== AuthConstants.AAD_COMMON_TENANT) {
+    return [{ id: credentials.domain }];
+  }
+
+  try {
+    return await listTenants(credentials, apiVersion);
+  } catch (err) {
+    logEvent(credentials.logger, "warning", "tenant.list", `Failed to list the tenants of the account: ${err.message}`,
+      { statusCode: err.statusCode });
+    return [];
+  }
+}
+
 /**
  * Builds an array of tenantIds.
  * @param credentials - The credentials.
  * @param apiVersion - default value 2016-06-01
- * @returns A promise that resolves to an array of tenantIds and rejects with an error.
+ * @returns A promise that resolves to an array of tenantIds. It is empty when the tenants cannot be listed.
  */
 export async function buildTenantList(credentials: TokenCredentialsBase, apiVersion = "2016-06-01"): Promise<string[]> {
-  if (credentials.domain && credentials.domain !== AuthConstants.AAD_COMMON_TENANT) {
-    return [credentials.domain];
-  }
+  const tenants = await getTenantsOfCredentials(credentials, apiVersion);
+  return tenants.map((tenant) => tenant.id);
+}
 
-  const client = new msRest.ServiceClient(credentials);
-  const baseUrl = credentials.environment.resourceManagerEndpointUrl;
-  const reqUrl = `${baseUrl}${baseUrl.endsWith("/") ? "" : "/"}tenants?api-version=${apiVersion}`;
-  const req: msRest.RequestPrepareOptions = {
-    url: reqUrl,
-    method: "GET",
-  };
-  const res = await client.sendRequest(req);
-  const result: string[] = [];
+/**
+ * Describes optional parameters to filter and tune the discovery of the subscriptions during login.
+ */
+export interface SubscriptionDiscoveryOptions {
+  /**
+   * Only lists the subscriptions of these tenants.
+   */
+  tenantIds?: string[];
+  /**
+   * Only keeps the subscriptions in one of these states, for example ["Enabled"]. The states are compared case insensitively.
+   */
+  states?: string[];
+  /**
+   * Only keeps the subscriptions whose display name matches. A string is matched case insensitively against the whole
+   * name, and may contain "*" wildcards, for example "prod-*".
+   */
+  namePattern?: string | RegExp;
+  /**
+   * The maximum number of tenants whose subscriptions are listed in parallel, rounded down to an integer of at least 1.
+   * 0 and `NaN` query the tenants one at a time.
+   * Default value is 5.
+   */
+  maxConcurrency?: number;
+}
 
-  if (res.status < 300) {
-    const tenants: any = res.parsedBody;
-    for (const tenant of tenants.value) {
-      result.push(tenant.tenantId);
+/**
+ * Describes a tenant whose subscriptions could not be listed.
+ */
+export interface TenantDiscoveryFailure {
+  /**
+   * The tenant id.
+   */
+  tenantId: string;
+  /**
+   * The reason of the failure.
+   */
+  error: Error;
+}
+
+/**
+ * Describes the subscriptions found in the tenants, along with the tenants whose subscriptions could not be listed.
+ */
+export interface SubscriptionDiscoveryResult {
+  /**
+   * The subscriptions of the tenants that could be listed.
+   */
+  subscriptions: LinkedSubscription[];
+  /**
+   * The tenants whose subscriptions could not be listed, for example because they require multi-factor authentication.
+   */
+  failedTenants: TenantDiscoveryFailure[];
+  /**
+   * The tenants of the account, when they were discovered rather than given.
+   */
+  tenants?: LinkedTenant[];
+}
+
+/**
+ * Discovers the tenants of the account of the credentials and lists their subscriptions, like the login methods do unless
+ * they are called with `skipSubscriptionDiscovery`. The credentials must get tokens for Azure Resource Manager.
+ *
+ * @param credentials - The credentials, for example returned by a login method.
+ * @param options - Filters the tenants and the subscriptions, and limits the number of tenants queried in parallel.
+ * @returns A promise that resolves to the tenants and their subscriptions.
+ */
+export async function discoverSubscriptions(credentials: TokenCredentialsBase, options: SubscriptionDiscoveryOptions = {}): Promise<SubscriptionDiscoveryResult> {
+  let tenants = await getTenantsOfCredentials(credentials);
+  if (tenants.length === 0) {
+    // Personal accounts cannot list their tenants, but the token tells their home tenant.
+    const tokenResponse = await credentials.getToken();
+    if (tokenResponse.tenantId) {
+      tenants = [{ id: tokenResponse.tenantId }];
     }
   }
 
-  return result;
+  const result = await getSubscriptionsFromTenants(credentials, tenants.map((tenant) => tenant.id), undefined, options);
+  return { ...result, tenants };
 }
 
-export async function getSubscriptionsFromTenants(credentials: TokenCredentialsBase, tenantList: string[], apiVersion = "2016-06-01"): Promise<LinkedSubscription[]> {
-  let subscriptions: LinkedSubscription[] = [];
-  let userType = "user";
+/**
+ * Lists the subscriptions of the tenants, following the `nextLink` of every page. The tenants are queried in parallel
+ * with copies of the credentials for each tenant, so that the domain of the given credentials is never changed.
+ * The failure of a tenant does not prevent the others from being listed, unless all of them fail.
+ *
+ * @param credentials - The credentials.
+ * @param tenantList - The ids of the tenants.
+ * @param apiVersion - default value 2016-06-01
+ * @param options - Optional filters.
+ * @returns A promise that resolves to the subscriptions and the failed tenants, and rejects with the error of the first
+ * tenant when no tenant could be listed.
+ */
+export async function getSubscriptionsFromTenants(
+  credentials: TokenCredentialsBase,
+  tenantList: string[],
+  apiVersion = "2016-06-01",
+  options: SubscriptionDiscoveryOptions = {}): Promise<SubscriptionDiscoveryResult> {
+  let userType: UserType = "user";
   let username: string;
-  const originalDomain = credentials.domain;
   if (credentials instanceof ApplicationTokenCredentialsBase) {
     userType = "servicePrincipal";
     username = credentials.clientId;
   } else {
     username = (<any>credentials).username;
   }
-  for (const tenant of tenantList) {
-    credentials.domain = tenant;
-    const client = new msRest.ServiceClient(credentials);
-    const baseUrl = credentials.environment.resourceManagerEndpointUrl;
-    const reqUrl = `${baseUrl}${baseUrl.endsWith("/") ? "" : "/"}subscriptions?api-version=${apiVersion}`;
-    const req: msRest.RequestPrepareOptions = {
-      url: reqUrl,
-      method: "GET",
-    };
-
-    const res = await client.sendRequest(req);
-    const subscriptionList: any[] = (<any>res.parsedBody).value;
-    subscriptions = subscriptions.concat(subscriptionList.map((s: any) => {
-      s.tenantId = tenant;
-      s.user = { name: username, type: userType };
-      s.environmentName = credentials.environment.name;
-      s.name = s.displayName;
-      s.id = s.subscriptionId;
-      delete s.displayName;
-      delete s.subscriptionId;
-      delete s.subscriptionPolicies;
-      return s;
-    }));
+
+  const tenants = options.tenantIds
+    ? tenantList.filter((tenant) => options.tenantIds!.some((tenantId) => tenantId.toLowerCase() === tenant.toLowerCase()))
+    : tenantList;
+  const isSelected = _createSubscriptionFilter(options);
+  const maxConcurrency = options.maxConcurrency === undefined ? 5 : Math.max(1, Math.floor(options.maxConcurrency) || 1);
+  const results = await _mapWithConcurrency(tenants, maxConcurrency, async (tenant) => {
+    try {
+      const tenantCredentials = credentials.domain === tenant ? credentials : credentials.withDomain(tenant);
+      const subscriptionList = await _listAllPages(tenantCredentials, `subscriptions?api-version=${apiVersion}`);
+      return {
+        subscriptions: subscriptionList.map((s: any) => {
+          s.tenantId = tenant;
+          s.user = { name: username, type: userType };
+          s.environmentName = credentials.environment.name;
+          s.name = s.displayName;
+          s.id = s.subscriptionId;
+          delete s.displayName;
+          delete s.subscriptionId;
+          delete s.subscriptionPolicies;
+          return s as LinkedSubscription;
+        }).filter(isSelected)
+      };
+    } catch (error) {
+      return { failure: { tenantId: tenant, error } };
+    }
+  });
+
+  const result: SubscriptionDiscoveryResult = { subscriptions: [], failedTenants: [] };
+  for (const tenantResult of results) {
+    if (tenantResult.failure) {
+      result.failedTenants.push(tenantResult.failure);
+    } else {
+      result.subscriptions.push(...tenantResult.subscriptions!);
+    }
+  }
+  if (result.failedTenants.length && result.failedTenants.length === tenants.length) {
+    throw result.failedTenants[0].error;
   }
-  // Reset the original domain.
-  credentials.domain = originalDomain;
-  return subscriptions;
+  return result;
+}
+
+/**
+ * Gets the items of every page of a list operation of Azure Resource Manager.
+ *
+ * @param credentials - The credentials signing the requests.
+ * @param path - The path and query of the first page, relative to the Resource Manager endpoint.
+ */
+async function _listAllPages(credentials: TokenCredentialsBase, path: string): Promise<any[]> {
+  const client = new msRest.ServiceClient(credentials);
+  const baseUrl = credentials.environment.resourceManagerEndpointUrl;
+  let url: string | undefined = `${baseUrl}${baseUrl.endsWith("/") ? "" : "/"}${path}`;
+  const items: any[] = [];
+  while (url) {
+    const res: msRest.HttpOperationResponse = await client.sendRequest({ url, method: "GET" });
+    const body = res.parsedBody;
+    if (res.status >= 300 || !body || !Array.isArray(body.value)) {
+      const error = body && body.error;
+      throw new ResourceManagerError(`The request "GET ${url}" failed with status code ${res.status}` +
+        `${error && error.message ? `: ${error.message}` : "."}`, { statusCode: res.status, code: error && error.code, cause: body });
+    }
+    items.push(...body.value);
+    url = body.nextLink;
+  }
+  return items;
+}
+
+function _createSubscriptionFilter(options: SubscriptionDiscoveryOptions): (subscription: LinkedSubscription) => boolean {
+  const states = options.states && options.states.map((state) => state.toLowerCase());
+  let namePattern = options.namePattern;
+  if (typeof namePattern === "string") {
+    const source = namePattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    namePattern = new RegExp(`^${source}$`, "i");
+  }
+  return (subscription) => (!states || states.indexOf((subscription.state || "").toLowerCase()) >= 0) &&
+    (!namePattern || (namePattern as RegExp).test(subscription.name || ""));
+}
+
+/**
+ * Maps the items with at most `maxConcurrency` calls of the async function pending at a time, keeping the order of the items.
+ */
+async function _mapWithConcurrency<T, U>(items: T[], maxConcurrency: number, map: (item: T) => Promise<U>): Promise<U[]> {
+  const results: U[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await map(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(maxConcurrency, items.length) }, worker));
+  return results;
 }
@@ -0,0 +1,46 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+/**
+ * Passes the outcome of the promise to the callback of a TokenCache method. adal declares the error of these
+ * callbacks as `Error`, although it is `undefined` when the operation succeeds.
+ */
+export function settleCallback<TResult>(
+  promise: Promise<TResult | undefined>,
+  callback: (err: Error, result: TResult) => void,
+  resultOnError?: TResult
+): void {
+  const settle = callback as (err: Error | undefined, result: TResult | undefined) => void;
+  promise.then((result) => settle(undefined, result), (err) => settle(err, resultOnError));
+}
+
+/**
+ * Dates are serialized as strings when cache entries are persisted. adal expects `expiresOn` to be a Date.
+ */
+export function reviveEntry(entry: any): any {
+  if (entry && typeof entry.expiresOn === "string") {
+    entry.expiresOn = new Date(entry.expiresOn);
+  }
+  return entry;
+}
+
+/**
+ * Serializes an entry with sorted keys, so that entries can be compared by value.
+ */
+export function serializeEntry(entry: any): string {
+  return JSON.stringify(entry, Object.keys(entry).sort());
+}
+
+/**
+ * Checks whether the entry has all the values of the query, like the `find()` method of adal's MemoryCache.
+ */
+export function matchesQuery(entry: any, query: any): boolean {
+  return Object.keys(query || {}).every((key) => {
+    const expected = query[key];
+    const actual = entry[key];
+    if (expected instanceof Date && actual instanceof Date) {
+      return expected.getTime() === actual.getTime();
+    }
+    return actual === expected;
+  });
+}
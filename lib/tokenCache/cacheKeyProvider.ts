@@ -0,0 +1,116 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as fs from "fs";
+import { randomBytes } from "crypto";
+import { dirname } from "path";
+import { promisify } from "util";
+import { TokenCacheError } from "../util/authErrors";
+import { makeDirectory } from "../util/fileUtils";
+
+const readFile = promisify(fs.readFile);
+const writeFile = promisify(fs.writeFile);
+
+/**
+ * The length in bytes of the keys used to encrypt token caches (AES-256).
+ */
+export const cacheKeyLength = 32;
+
+/**
+ * Provides the key used by the {@link EncryptedTokenCache} to encrypt and decrypt its entries.
+ */
+export interface CacheKeyProvider {
+  /**
+   * Returns the 32 byte key used for AES-256-GCM encryption.
+   */
+  getKey(): Promise<Buffer>;
+}
+
+/**
+ * Creates a CacheKeyProvider that reads the key from an environment variable. The value must be a
+ * 32 byte key encoded as a hex or base64 string, for example the output of `openssl rand -base64 32`.
+ *
+ * @param variableName - The name of the environment variable. Default value is "AZURE_TOKEN_CACHE_KEY".
+ */
+export function createEnvironmentCacheKeyProvider(variableName = "AZURE_TOKEN_CACHE_KEY"): CacheKeyProvider {
+  return {
+    getKey: async (): Promise<Buffer> => {
+      const value = process.env[variableName];
+      if (!value) {
+        throw new TokenCacheError(`The environment variable "${variableName}" holding the token cache key is not set.`);
+      }
+      return _decodeKey(value, `the environment variable "${variableName}"`);
+    }
+  };
+}
+
+/**
+ * Creates a CacheKeyProvider that reads the key from a file. The file contains a 32 byte key encoded as
+ * a hex or base64 string. If the file does not exist, a random key is generated and written to it with
+ * permissions that only allow the current user to read it.
+ *
+ * @param filePath - The path of the key file.
+ */
+export function createFileCacheKeyProvider(filePath: string): CacheKeyProvider {
+  if (!filePath || typeof filePath.valueOf() !== "string") {
+    throw new Error("filePath must be a non empty string.");
+  }
+
+  return {
+    getKey: async (): Promise<Buffer> => {
+      let content: string;
+      try {
+        content = await readFile(filePath, { encoding: "utf8" });
+      } catch (err) {
+        if (err.code !== "ENOENT") {
+          throw err;
+        }
+        const key = randomBytes(cacheKeyLength);
+        await makeDirectory(dirname(filePath), 0o700);
+        try {
+          // The "wx" flag makes sure a key written concurrently by another process is not overwritten.
+          await writeFile(filePath, key.toString("base64"), { encoding: "utf8", mode: 0o600, flag: "wx" });
+          return key;
+        } catch (writeErr) {
+          if (writeErr.code !== "EEXIST") {
+            throw writeErr;
+          }
+          content = await readFile(filePath, { encoding: "utf8" });
+        }
+      }
+      return _decodeKey(content, `the key file "${filePath}"`);
+    }
+  };
+}
+
+/**
+ * Creates a CacheKeyProvider from a function returning the key, for example one that reads it from a secret store.
+ *
+ * @param getKey - The function returning the 32 byte key.
+ */
+export function createCallbackCacheKeyProvider(getKey: () => Buffer | Promise<Buffer>): CacheKeyProvider {
+  if (typeof getKey !== "function") {
+    throw new Error("getKey must be a function.");
+  }
+
+  return {
+    getKey: async (): Promise<Buffer> => {
+      const key = await getKey();
+      if (!Buffer.isBuffer(key) || key.length !== cacheKeyLength) {
+        throw new TokenCacheError(`The token cache key must be a Buffer of ${cacheKeyLength} bytes.`);
+      }
+      return key;
+    }
+  };
+}
+
+function _decodeKey(value: string, source: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]+$/.test(trimmed) && trimmed.length === cacheKeyLength * 2
+    ? Buffer.from(trimmed, "hex")
+    : Buffer.from(trimmed, "base64");
+  if (key.length !== cacheKeyLength) {
+    throw new TokenCacheError(`The token cache key in ${source} must be ${cacheKeyLength} bytes encoded as a hex or base64 string.`);
+  }
+  return key;
+}
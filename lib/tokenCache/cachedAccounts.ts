@@ -0,0 +1,105 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { Environment } from "@azure/ms-rest-azure-env";
+import { TokenCache } from "adal-node";
+import { TokenCacheError } from "../util/authErrors";
+import { findEnvironmentByAuthority } from "../util/environmentUtils";
+
+/**
+ * A user account whose refresh token is in a token cache, for example after `interactiveLogin()` or `loginWithBrowser()`
+ * with a `FileTokenCache`. Pass it to `DeviceTokenCredentials.fromCachedAccount()` to sign in again without user interaction.
+ */
+export interface CachedAccount {
+  /**
+   * The user name of the account in the form "user@example.com".
+   */
+  username: string;
+  /**
+   * The tenant id in which the token of the account was acquired, if known.
+   */
+  tenantId?: string;
+  /**
+   * The active directory application client id with which the account signed in.
+   */
+  clientId: string;
+  /**
+   * The Azure environment of the account, or `undefined` when its authority does not belong to a known environment.
+   */
+  environment?: Environment;
+  /**
+   * The authority URL of the cached token, for example "https://login.microsoftonline.com/common".
+   */
+  authority: string;
+}
+
+/**
+ * Describes optional parameters to filter the accounts of a token cache.
+ */
+export interface ListCachedAccountsOptions {
+  /**
+   * Only lists the accounts that signed in with this active directory application client id.
+   */
+  clientId?: string;
+  /**
+   * Only lists the accounts of this Azure environment.
+   */
+  environment?: Environment;
+}
+
+/**
+ * Lists the user accounts that have a refresh token in the token cache. An account that has tokens for several tenants
+ * is listed once per tenant. The tokens of service principals and managed identities are not accounts.
+ *
+ * @param tokenCache - The token cache, for example a `FileTokenCache`.
+ * @param options - Optional filters.
+ * @returns A promise that resolves to the accounts, sorted by username.
+ */
+export function listCachedAccounts(tokenCache: TokenCache, options: ListCachedAccountsOptions = {}): Promise<CachedAccount[]> {
+  return new Promise<CachedAccount[]>((resolve, reject) => {
+    tokenCache.find({}, (err: Error, entries: any[]) => {
+      if (err) {
+        return reject(new TokenCacheError(`Failed to read the token cache: ${err.message}`, { cause: err }));
+      }
+
+      const accounts = new Map<string, CachedAccount>();
+      for (const entry of entries || []) {
+        if (!entry || !entry.userId || !entry.refreshToken || !entry._clientId || typeof entry._authority !== "string") {
+          continue;
+        }
+        if (options.clientId && entry._clientId !== options.clientId) {
+          continue;
+        }
+        const environment = findEnvironmentByAuthority(entry._authority);
+        if (options.environment && (!environment || environment.activeDirectoryEndpointUrl !== options.environment.activeDirectoryEndpointUrl)) {
+          continue;
+        }
+
+        const account: CachedAccount = {
+          username: entry.userId,
+          tenantId: _getTenantId(entry._authority) || entry.tenantId,
+          clientId: entry._clientId,
+          environment,
+          authority: entry._authority
+        };
+        const key = [account.username.toLowerCase(), account.clientId, account.tenantId, environment ? environment.name : account.authority].join("|");
+        if (!accounts.has(key)) {
+          accounts.set(key, account);
+        }
+      }
+      resolve(Array.from(accounts.values()).sort((a, b) => a.username.localeCompare(b.username)));
+    });
+  });
+}
+
+/**
+ * Gets the tenant of an authority like "https://login.microsoftonline.com/tenant-id", but not the multi-tenant
+ * authorities "common" and "organizations", whose tokens are issued by the home tenant of the user.
+ */
+function _getTenantId(authority: string): string | undefined {
+  const tenant = authority.replace(/\/+$/, "").split("/").pop();
+  if (!tenant || ["common", "organizations", "consumers"].indexOf(tenant.toLowerCase()) >= 0) {
+    return undefined;
+  }
+  return tenant;
+}
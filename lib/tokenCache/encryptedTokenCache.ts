@@ -0,0 +1,212 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { TokenCache, TokenResponse } from "adal-node";
+import { CacheKeyProvider } from "./cacheKeyProvider";
+import { matchesQuery, reviveEntry, serializeEntry, settleCallback } from "./cacheEntries";
+import { AuthLogger, logEvent } from "../util/logger";
+
+const algorithm = "aes-256-gcm";
+const ivLength = 12;
+const authTagLength = 16;
+const formatVersion = "v1";
+
+/**
+ * Describes optional parameters for the {@link EncryptedTokenCache}.
+ */
+export interface EncryptedTokenCacheOptions {
+  /**
+   * Called with a message when the entries of the underlying cache cannot be decrypted and the cache
+   * is reset. By default the message is sent to the logger as a "tokenCache.reset" warning.
+   */
+  onWarning?: (message: string) => void;
+  /**
+   * Receives the log entries of the cache. Default value is the logger set with `setLogger()`, if any.
+   */
+  logger?: AuthLogger;
+}
+
+/**
+ * The shape of the entries stored in the underlying cache.
+ */
+interface StoredEntry {
+  encryptedEntry: string;
+}
+
+/**
+ * A decrypted entry along with the entry it was read from.
+ */
+interface LoadedEntry {
+  stored: StoredEntry;
+  entry: any;
+}
+
+/**
+ * A TokenCache that encrypts every entry with AES-256-GCM before handing it to another TokenCache, for example
+ * the {@link FileTokenCache}, so that access and refresh tokens are never stored in cleartext.
+ *
+ * If an entry cannot be decrypted, because it was modified or encrypted with a different key, a warning is
+ * reported and all the entries of the underlying cache are removed, so that the cache starts over empty.
+ */
+export class EncryptedTokenCache implements TokenCache {
+  /**
+   * The cache storing the encrypted entries.
+   */
+  readonly innerCache: TokenCache;
+  /**
+   * Provides the key used to encrypt and decrypt the entries.
+   */
+  readonly keyProvider: CacheKeyProvider;
+  private readonly _onWarning: (message: string) => void;
+  private _keyPromise?: Promise<Buffer>;
+
+  /**
+   * Creates a new EncryptedTokenCache object.
+   *
+   * @param innerCache - The cache storing the encrypted entries.
+   * @param keyProvider - Provides the key used to encrypt and decrypt the entries.
+   * @param options - Object representing optional parameters.
+   */
+  public constructor(innerCache: TokenCache, keyProvider: CacheKeyProvider, options: EncryptedTokenCacheOptions = {}) {
+    if (!innerCache) {
+      throw new Error("innerCache cannot be null or undefined.");
+    }
+    if (!keyProvider || typeof keyProvider.getKey !== "function") {
+      throw new Error("keyProvider must be an object with a getKey() method.");
+    }
+
+    this.innerCache = innerCache;
+    this.keyProvider = keyProvider;
+    this._onWarning = options.onWarning || ((message: string) => logEvent(options.logger, "warning", "tokenCache.reset", message));
+  }
+
+  /**
+   * Removes a collection of entries from the cache in a single batch operation.
+   *
+   * @param entries - An array of cache entries to remove.
+   * @param callback - This function is called when the operation is complete. Any error is provided as the first parameter.
+   */
+  public remove(entries: TokenResponse[], callback: (err: Error, result: null) => void): void {
+    const keysToRemove = entries.map(serializeEntry);
+    const removal = this._load()
+      .then((loaded) => {
+        const storedToRemove = loaded
+          .filter((item) => keysToRemove.indexOf(serializeEntry(item.entry)) !== -1)
+          .map((item) => item.stored);
+        return storedToRemove.length ? this._removeStored(storedToRemove) : undefined;
+      });
+    settleCallback(removal.then(() => undefined), callback);
+  }
+
+  /**
+   * Adds a collection of entries to the cache in a single batch operation. Entries that are already present are skipped.
+   *
+   * @param entries - An array of entries to add to the cache.
+   * @param callback - This function is called when the operation is complete. Any error is provided as the first parameter.
+   */
+  public add(entries: TokenResponse[], callback: (err: Error, result: boolean) => void): void {
+    const addition = Promise.all([this._load(), this._getKey()])
+      .then(([loaded, key]) => {
+        const existingKeys = loaded.map((item) => serializeEntry(item.entry));
+        const storedToAdd: StoredEntry[] = [];
+        for (const entry of entries) {
+          const entryKey = serializeEntry(entry);
+          if (existingKeys.indexOf(entryKey) === -1) {
+            existingKeys.push(entryKey);
+            storedToAdd.push({ encryptedEntry: _encrypt(key, entry) });
+          }
+        }
+        return new Promise<void>((resolve, reject) => {
+          if (!storedToAdd.length) {
+            return resolve();
+          }
+          this.innerCache.add(_asCacheEntries(storedToAdd), (err: Error) => err ? reject(err) : resolve());
+        });
+      });
+    settleCallback(addition.then(() => true), callback, false);
+  }
+
+  /**
+   * Finds all entries in the cache that match all of the values in the query.
+   *
+   * @param query - The object compared to each decrypted entry in the cache.
+   * @param callback - This function is called with the matching entries, or with an error as the first parameter.
+   */
+  public find(query: any, callback: (err: Error, results: any[]) => void): void {
+    const matches = this._load().then((loaded) => loaded.map((item) => item.entry).filter((entry) => matchesQuery(entry, query)));
+    settleCallback(matches, callback, []);
+  }
+
+  private _getKey(): Promise<Buffer> {
+    if (!this._keyPromise) {
+      this._keyPromise = this.keyProvider.getKey().catch((err) => {
+        // Do not remember the failure, so that the key is requested again on the next operation.
+        this._keyPromise = undefined;
+        throw err;
+      });
+    }
+    return this._keyPromise;
+  }
+
+  private async _load(): Promise<LoadedEntry[]> {
+    const key = await this._getKey();
+    const storedEntries = await new Promise<StoredEntry[]>((resolve, reject) => {
+      this.innerCache.find({}, (err: Error, results: any[]) => err ? reject(err) : resolve(results || []));
+    });
+
+    const loaded: LoadedEntry[] = [];
+    let failures = 0;
+    for (const stored of storedEntries) {
+      try {
+        loaded.push({ stored, entry: _decrypt(key, stored) });
+      } catch (err) {
+        failures++;
+      }
+    }
+
+    if (failures) {
+      this._onWarning(`Unable to decrypt ${failures} of the ${storedEntries.length} entries of the token cache. ` +
+        "The cache was modified or encrypted with a different key. All the entries were removed from the cache.");
+      await this._removeStored(storedEntries);
+      return [];
+    }
+    return loaded;
+  }
+
+  private _removeStored(storedEntries: StoredEntry[]): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.innerCache.remove(_asCacheEntries(storedEntries), (err: Error) => err ? reject(err) : resolve());
+    });
+  }
+}
+
+/**
+ * adal types the entries of every TokenCache as TokenResponse, while the inner cache holds the encrypted entries.
+ */
+function _asCacheEntries(storedEntries: StoredEntry[]): TokenResponse[] {
+  return storedEntries as unknown as TokenResponse[];
+}
+
+function _encrypt(key: Buffer, entry: any): string {
+  const iv = randomBytes(ivLength);
+  const cipher = createCipheriv(algorithm, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(entry), "utf8"), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+  return `${formatVersion}.${Buffer.concat([iv, authTag, ciphertext]).toString("base64")}`;
+}
+
+function _decrypt(key: Buffer, stored: StoredEntry): any {
+  if (!stored || typeof stored.encryptedEntry !== "string" || !stored.encryptedEntry.startsWith(`${formatVersion}.`)) {
+    throw new Error("The cache entry is not an encrypted entry.");
+  }
+
+  const payload = Buffer.from(stored.encryptedEntry.slice(formatVersion.length + 1), "base64");
+  if (payload.length < ivLength + authTagLength) {
+    throw new Error("The encrypted cache entry is truncated.");
+  }
+  const decipher = createDecipheriv(algorithm, key, payload.slice(0, ivLength));
+  decipher.setAuthTag(payload.slice(ivLength, ivLength + authTagLength));
+  const plaintext = Buffer.concat([decipher.update(payload.slice(ivLength + authTagLength)), decipher.final()]);
+  return reviveEntry(JSON.parse(plaintext.toString("utf8")));
+}
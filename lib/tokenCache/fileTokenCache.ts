@@ -0,0 +1,195 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as fs from "fs";
+import { dirname } from "path";
+import { promisify } from "util";
+import { TokenCache, TokenResponse } from "adal-node";
+import { matchesQuery, reviveEntry, serializeEntry, settleCallback } from "./cacheEntries";
+import { TokenCacheError } from "../util/authErrors";
+import { makeDirectory } from "../util/fileUtils";
+
+const readFile = promisify(fs.readFile);
+const writeFile = promisify(fs.writeFile);
+const rename = promisify(fs.rename);
+const unlink = promisify(fs.unlink);
+const open = promisify(fs.open);
+const close = promisify(fs.close);
+const stat = promisify(fs.stat);
+
+/**
+ * Describes optional parameters for the {@link FileTokenCache}.
+ */
+export interface FileTokenCacheOptions {
+  /**
+   * The maximum time to wait for the lock on the cache file to be released by another process.
+   * Default value is 5000 milliseconds.
+   */
+  lockTimeoutInMs?: number;
+  /**
+   * The age after which a lock file is considered abandoned (for example by a process that crashed)
+   * and is removed. Default value is 10000 milliseconds.
+   */
+  staleLockInMs?: number;
+}
+
+/**
+ * A TokenCache that persists the entries in a JSON file, so that tokens survive across processes.
+ * The file is only readable and writable by the current user. Writes are serialized across processes
+ * with a lock file placed next to the cache file, and the cache file is replaced atomically.
+ *
+ * An instance can be passed as the `tokenCache` to any credential or login method.
+ */
+export class FileTokenCache implements TokenCache {
+  /**
+   * The path of the file in which the entries are stored.
+   */
+  readonly filePath: string;
+  private readonly _lockPath: string;
+  private readonly _lockTimeoutInMs: number;
+  private readonly _staleLockInMs: number;
+
+  /**
+   * Creates a new FileTokenCache object.
+   *
+   * @param filePath - The path of the file in which the entries are stored. It is created when the first entry is added.
+   * @param options - Object representing optional parameters.
+   */
+  public constructor(filePath: string, options: FileTokenCacheOptions = {}) {
+    if (!filePath || typeof filePath.valueOf() !== "string") {
+      throw new Error("filePath must be a non empty string.");
+    }
+
+    this.filePath = filePath;
+    this._lockPath = `${filePath}.lock`;
+    this._lockTimeoutInMs = options.lockTimeoutInMs || 5000;
+    this._staleLockInMs = options.staleLockInMs || 10000;
+  }
+
+  /**
+   * Removes a collection of entries from the cache in a single batch operation.
+   *
+   * @param entries - An array of cache entries to remove.
+   * @param callback - This function is called when the operation is complete. Any error is provided as the first parameter.
+   */
+  public remove(entries: TokenResponse[], callback: (err: Error, result: null) => void): void {
+    const keysToRemove = entries.map(serializeEntry);
+    const removal = this._update((existing) => existing.filter((entry) => keysToRemove.indexOf(serializeEntry(entry)) === -1));
+    settleCallback(removal.then(() => undefined), callback);
+  }
+
+  /**
+   * Adds a collection of entries to the cache in a single batch operation. Entries that are already present are skipped.
+   *
+   * @param entries - An array of entries to add to the cache.
+   * @param callback - This function is called when the operation is complete. Any error is provided as the first parameter.
+   */
+  public add(entries: TokenResponse[], callback: (err: Error, result: boolean) => void): void {
+    const addition = this._update((existing) => {
+      const existingKeys = existing.map(serializeEntry);
+      for (const entry of entries) {
+        const key = serializeEntry(entry);
+        if (existingKeys.indexOf(key) === -1) {
+          existing.push(entry);
+          existingKeys.push(key);
+        }
+      }
+      return existing;
+    });
+    settleCallback(addition.then(() => true), callback, false);
+  }
+
+  /**
+   * Finds all entries in the cache that match all of the values in the query.
+   *
+   * @param query - The object compared to each entry in the cache.
+   * @param callback - This function is called with the matching entries, or with an error as the first parameter.
+   */
+  public find(query: any, callback: (err: Error, results: any[]) => void): void {
+    settleCallback(this._read().then((entries) => entries.filter((entry) => matchesQuery(entry, query))), callback, []);
+  }
+
+  private async _read(): Promise<any[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, { encoding: "utf8" });
+    } catch (err) {
+      if (err.code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+
+    if (!content.trim()) {
+      return [];
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch (err) {
+      throw new TokenCacheError(`The token cache file "${this.filePath}" does not contain valid JSON: ${err.message}`, { cause: err });
+    }
+    if (!Array.isArray(parsed)) {
+      throw new TokenCacheError(`The token cache file "${this.filePath}" must contain a JSON array.`);
+    }
+    return parsed.map(reviveEntry);
+  }
+
+  private async _update(update: (entries: any[]) => any[]): Promise<void> {
+    await this._acquireLock();
+    try {
+      const entries = update(await this._read());
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(entries), { encoding: "utf8", mode: 0o600 });
+      await rename(tempPath, this.filePath);
+    } finally {
+      await this._releaseLock();
+    }
+  }
+
+  private async _acquireLock(): Promise<void> {
+    const start = Date.now();
+    await makeDirectory(dirname(this.filePath), 0o700);
+    while (true) {
+      try {
+        const fd = await open(this._lockPath, "wx", 0o600);
+        await close(fd);
+        return;
+      } catch (err) {
+        if (err.code !== "EEXIST") {
+          throw err;
+        }
+      }
+
+      try {
+        const lockStat = await stat(this._lockPath);
+        if (Date.now() - lockStat.mtime.getTime() > this._staleLockInMs) {
+          await unlink(this._lockPath);
+          continue;
+        }
+      } catch (err) {
+        if (err.code === "ENOENT") {
+          // The lock was released in the meantime.
+          continue;
+        }
+        throw err;
+      }
+
+      if (Date.now() - start > this._lockTimeoutInMs) {
+        throw new TokenCacheError(`Timed out after ${this._lockTimeoutInMs}ms waiting for the lock on the token cache file "${this.filePath}".`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+
+  private async _releaseLock(): Promise<void> {
+    try {
+      await unlink(this._lockPath);
+    } catch (err) {
+      if (err.code !== "ENOENT") {
+        throw err;
+      }
+    }
+  }
+}
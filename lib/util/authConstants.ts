@@ -3,10 +3,12 @@
 
 export const AuthConstants = {
   "AAD_COMMON_TENANT": "common",
+  "ADFS_TENANT": "adfs",
   "DEFAULT_ADAL_CLIENT_ID": "04b07795-8ddb-461a-bbee-02f9e1bf7b46",
   "SDK_INTERNAL_ERROR": "SDK_INTERNAL_ERROR",
   "DEFAULT_LANGUAGE": "en-us",
   "AZURE_AUTH_LOCATION": "AZURE_AUTH_LOCATION",
+  "AZURE_AUTH_PROFILE": "AZURE_AUTH_PROFILE",
   "RESOURCE_MANAGER_ENDPOINT": "https://management.azure.com/"
 };
 
@@ -0,0 +1,295 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+// tslint:disable: max-classes-per-file
+
+/**
+ * Describes the details that can be attached to an {@link AuthenticationError}.
+ */
+export interface AuthenticationErrorOptions {
+  /**
+   * The error code returned by Azure Active Directory, for example "invalid_client".
+   */
+  code?: string;
+  /**
+   * The correlation id of the failed request, useful when contacting support.
+   */
+  correlationId?: string;
+  /**
+   * The HTTP status code of the failed request.
+   */
+  statusCode?: number;
+  /**
+   * The underlying error or error response.
+   */
+  cause?: any;
+}
+
+/**
+ * The base class of all the errors thrown when authentication fails.
+ */
+export class AuthenticationError extends Error {
+  /**
+   * The error code returned by Azure Active Directory, for example "invalid_client".
+   */
+  readonly code?: string;
+  /**
+   * The correlation id of the failed request, useful when contacting support.
+   */
+  readonly correlationId?: string;
+  /**
+   * The HTTP status code of the failed request.
+   */
+  readonly statusCode?: number;
+  /**
+   * The underlying error or error response.
+   */
+  readonly cause?: any;
+
+  /**
+   * Creates a new AuthenticationError object.
+   *
+   * @param message - The error message.
+   * @param options - The details of the error.
+   */
+  constructor(message: string, options: AuthenticationErrorOptions = {}) {
+    super(message);
+    this.name = "AuthenticationError";
+    this.code = options.code;
+    this.correlationId = options.correlationId;
+    this.statusCode = options.statusCode;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The error thrown when a credential cannot be used in the current environment, for example because
+ * environment variables are missing, no token is cached for the user or no managed identity endpoint is available.
+ */
+export class CredentialUnavailableError extends AuthenticationError {
+  constructor(message: string, options?: AuthenticationErrorOptions) {
+    super(message, options);
+    this.name = "CredentialUnavailableError";
+  }
+}
+
+/**
+ * The error thrown when Azure Active Directory rejects the provided credentials, for example an invalid
+ * client secret, an expired refresh token or a wrong password.
+ */
+export class InvalidCredentialsError extends AuthenticationError {
+  constructor(message: string, options?: AuthenticationErrorOptions) {
+    super(message, options);
+    this.name = "InvalidCredentialsError";
+  }
+}
+
+/**
+ * The error thrown when the token cache cannot be read or updated.
+ */
+export class TokenCacheError extends AuthenticationError {
+  constructor(message: string, options?: AuthenticationErrorOptions) {
+    super(message, options);
+    this.name = "TokenCacheError";
+  }
+}
+
+/**
+ * Describes the details that can be attached to a {@link ManagedIdentityError}.
+ */
+export interface ManagedIdentityErrorOptions extends AuthenticationErrorOptions {
+  /**
+   * The body of the last response received from the endpoint.
+   */
+  body?: string;
+}
+
+/**
+ * The error thrown when a token cannot be acquired from a managed identity endpoint.
+ */
+export class ManagedIdentityError extends AuthenticationError {
+  /**
+   * The body of the last response received from the endpoint, if any.
+   */
+  readonly body?: string;
+  /**
+   * The "error" of the error response returned by the endpoint, if any.
+   */
+  readonly error?: string;
+  /**
+   * The "error_description" of the error response returned by the endpoint, if any.
+   */
+  readonly errorDescription?: string;
+  /**
+   * @deprecated Use `errorDescription`, this property is kept for the callers that read the raw error response.
+   */
+  readonly error_description?: string;
+
+  constructor(message: string, options: ManagedIdentityErrorOptions = {}) {
+    super(message, options);
+    this.name = "ManagedIdentityError";
+    this.body = options.body;
+    const errorResponse = _getErrorResponse(options);
+    this.error = errorResponse.error;
+    this.errorDescription = this.error_description = errorResponse.error_description;
+  }
+}
+
+/**
+ * Describes the details that can be attached to an {@link AzureCliError}.
+ */
+export interface AzureCliErrorOptions extends AuthenticationErrorOptions {
+  /**
+   * The output of the Azure CLI on stderr.
+   */
+  stderr?: string;
+}
+
+/**
+ * The error thrown when the Azure CLI fails, for example because it is not installed or nobody is logged in.
+ */
+export class AzureCliError extends AuthenticationError {
+  /**
+   * The output of the Azure CLI on stderr, if any.
+   */
+  readonly stderr?: string;
+
+  constructor(message: string, options: AzureCliErrorOptions = {}) {
+    super(message, options);
+    this.name = "AzureCliError";
+    this.stderr = options.stderr;
+  }
+}
+
+/**
+ * The error thrown when a request to Azure Resource Manager made to discover the tenants or the subscriptions of the
+ * credentials fails, for example because the token is not accepted by the tenant.
+ */
+export class ResourceManagerError extends AuthenticationError {
+  constructor(message: string, options?: AuthenticationErrorOptions) {
+    super(message, options);
+    this.name = "ResourceManagerError";
+  }
+}
+
+/**
+ * Describes a problem found in an auth file.
+ */
+export interface AuthFileIssue {
+  /**
+   * The path of the invalid value in the file, for example "profiles.ci.clientSecret".
+   */
+  path: string;
+  /**
+   * What is wrong with the value.
+   */
+  message: string;
+}
+
+/**
+ * The error thrown when an auth file cannot be parsed or does not match the expected format.
+ */
+export class AuthFileError extends CredentialUnavailableError {
+  /**
+   * The path of the auth file.
+   */
+  readonly filePath: string;
+  /**
+   * The problems found in the file, in the order in which they were found.
+   */
+  readonly issues: AuthFileIssue[];
+
+  constructor(filePath: string, issues: AuthFileIssue[], options?: AuthenticationErrorOptions) {
+    super(`The auth file "${filePath}" is invalid: ${issues.map((issue) => issue.path ? `"${issue.path}" ${issue.message}` : issue.message).join("; ")}.`, options);
+    this.name = "AuthFileError";
+    this.filePath = filePath;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Describes why one of the credentials tried by {@link ChainedTokenCredentials} failed.
+ */
+export interface ChainedCredentialFailure {
+  /**
+   * The name of the credential that failed. This is the class name of the credential object or the
+   * name of the function that was expected to create it.
+   */
+  name: string;
+  /**
+   * The error thrown while creating the credential or acquiring the token.
+   */
+  error: Error;
+}
+
+/**
+ * The error thrown when none of the credentials tried by {@link ChainedTokenCredentials} could provide a token.
+ */
+export class AggregateAuthenticationError extends AuthenticationError {
+  /**
+   * The reason why each of the credentials failed, in the order in which they were tried.
+   */
+  readonly failures: ChainedCredentialFailure[];
+
+  constructor(message: string, failures: ChainedCredentialFailure[]) {
+    super(message);
+    this.name = "AggregateAuthenticationError";
+    this.failures = failures;
+  }
+}
+
+/**
+ * The Azure Active Directory error codes that mean the credentials themselves were rejected.
+ */
+const invalidCredentialsCodes = ["invalid_client", "invalid_grant", "unauthorized_client"];
+
+/**
+ * Converts the error and response passed by adal to the callbacks of the `acquireToken*` methods to an AuthenticationError.
+ *
+ * @param error - The Error given by adal, if any.
+ * @param response - The error response given by adal or parsed from the body returned by Azure Active Directory, if any.
+ */
+export function createAdalError(error: any, response?: any): AuthenticationError {
+  const details = response && (response.error || response.errorDescription || response.error_description)
+    ? response
+    : (error || {});
+  const code: string | undefined = typeof details.error === "string" ? details.error : undefined;
+  const description: string | undefined = details.errorDescription || details.error_description;
+  const statusMatch = error && typeof error.message === "string" ? error.message.match(/http error: (\d{3})/) : undefined;
+  const options: AuthenticationErrorOptions = {
+    code,
+    correlationId: details.correlationId || details.correlation_id,
+    statusCode: statusMatch ? parseInt(statusMatch[1], 10) : undefined,
+    cause: error || response
+  };
+  const message = description || (error && error.message) || code || "Failed to acquire a token from Azure Active Directory.";
+
+  if (code && invalidCredentialsCodes.indexOf(code) !== -1) {
+    return new InvalidCredentialsError(message, options);
+  }
+  if (error && typeof error.message === "string" && error.message.indexOf("Entry not found in cache") !== -1) {
+    return new CredentialUnavailableError(message, options);
+  }
+  return new AuthenticationError(message, options);
+}
+
+/**
+ * Gets the OAuth error response of a managed identity endpoint, either the rejected value of the HTTP client or the parsed body.
+ */
+function _getErrorResponse(options: ManagedIdentityErrorOptions): { error?: string, error_description?: string } {
+  let errorResponse: any = options.cause;
+  if (!errorResponse || typeof errorResponse.error !== "string") {
+    try {
+      errorResponse = options.body ? JSON.parse(options.body) : undefined;
+    } catch (err) {
+      errorResponse = undefined;
+    }
+  }
+  if (!errorResponse || typeof errorResponse !== "object") {
+    return {};
+  }
+  return {
+    error: typeof errorResponse.error === "string" ? errorResponse.error : undefined,
+    error_description: typeof errorResponse.error_description === "string" ? errorResponse.error_description : undefined
+  };
+}
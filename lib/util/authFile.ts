@@ -0,0 +1,357 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { AuthConstants } from "./authConstants";
+import { AuthFileError, AuthFileIssue, CredentialUnavailableError } from "./authErrors";
+import { findEnvironment } from "./environmentUtils";
+
+/**
+ * The endpoints of a custom Azure environment described in an auth file. The properties are those of
+ * `Environment` in `@azure/ms-rest-azure-env`, for example "activeDirectoryEndpointUrl" and "resourceManagerEndpointUrl".
+ */
+export interface AuthFileEnvironment {
+  name?: string;
+  activeDirectoryEndpointUrl: string;
+  resourceManagerEndpointUrl: string;
+  [key: string]: string | boolean | undefined;
+}
+
+/**
+ * The properties shared by all the profiles of an auth file.
+ */
+export interface AuthFileProfileBase {
+  /**
+   * The subscription id, which is set to the subscription environment variable when the profile is used.
+   */
+  subscriptionId?: string;
+  /**
+   * The name of a known Azure environment like "AzureChinaCloud", or the endpoints of a custom environment.
+   * Default value is "AzureCloud".
+   */
+  environment?: string | AuthFileEnvironment;
+}
+
+/**
+ * A service principal authenticating with either a secret or a certificate.
+ */
+export interface ServicePrincipalAuthFileProfile extends AuthFileProfileBase {
+  type: "servicePrincipal";
+  clientId: string;
+  tenantId: string;
+  clientSecret?: string;
+  /**
+   * A PEM encoded certificate and private key, or the path of a .pem, .pfx or .p12 file.
+   */
+  clientCertificate?: string;
+  clientCertificatePassword?: string;
+  sendCertificateChain?: boolean;
+}
+
+/**
+ * The managed identity of the host, system-assigned unless a clientId is given.
+ */
+export interface ManagedIdentityAuthFileProfile extends AuthFileProfileBase {
+  type: "managedIdentity";
+  clientId?: string;
+}
+
+/**
+ * A user authenticating with a username and password.
+ */
+export interface UserAuthFileProfile extends AuthFileProfileBase {
+  type: "user";
+  username: string;
+  password: string;
+  clientId?: string;
+  tenantId?: string;
+}
+
+/**
+ * A user authenticating interactively with a device code.
+ */
+export interface DeviceCodeAuthFileProfile extends AuthFileProfileBase {
+  type: "deviceCode";
+  clientId?: string;
+  tenantId?: string;
+  language?: string;
+}
+
+/**
+ * The account currently logged in to the Azure CLI.
+ */
+export interface AzureCliAuthFileProfile extends AuthFileProfileBase {
+  type: "azureCli";
+}
+
+export type AuthFileProfile =
+  ServicePrincipalAuthFileProfile |
+  ManagedIdentityAuthFileProfile |
+  UserAuthFileProfile |
+  DeviceCodeAuthFileProfile |
+  AzureCliAuthFileProfile;
+
+/**
+ * The content of an auth file with named profiles, for example:
+ * ```json
+ * {
+ *   "defaultProfile": "ci",
+ *   "profiles": {
+ *     "ci": { "type": "servicePrincipal", "clientId": "...", "tenantId": "...", "clientSecret": "...", "subscriptionId": "..." },
+ *     "vm": { "type": "managedIdentity", "clientId": "..." },
+ *     "dev": { "type": "azureCli" }
+ *   }
+ * }
+ * ```
+ */
+export interface AuthFile {
+  /**
+   * The name of the profile used when none is selected.
+   */
+  defaultProfile?: string;
+  profiles: { [name: string]: AuthFileProfile };
+}
+
+interface FieldSchema {
+  type: "string" | "boolean";
+  required?: boolean;
+}
+
+const requiredString: FieldSchema = { type: "string", required: true };
+const optionalString: FieldSchema = { type: "string" };
+
+const profileSchemas: { [type: string]: { [field: string]: FieldSchema } } = {
+  servicePrincipal: {
+    clientId: requiredString,
+    tenantId: requiredString,
+    clientSecret: optionalString,
+    clientCertificate: optionalString,
+    clientCertificatePassword: optionalString,
+    sendCertificateChain: { type: "boolean" }
+  },
+  managedIdentity: {
+    clientId: optionalString
+  },
+  user: {
+    username: requiredString,
+    password: requiredString,
+    clientId: optionalString,
+    tenantId: optionalString
+  },
+  deviceCode: {
+    clientId: optionalString,
+    tenantId: optionalString,
+    language: optionalString
+  },
+  azureCli: {}
+};
+
+/**
+ * The properties of the file created by `az ad sp create-for-rbac --sdk-auth` that describe the service principal.
+ * The other properties are the endpoints of its environment.
+ */
+const sdkAuthCredentialProperties = ["clientId", "clientSecret", "clientCertificate", "subscriptionId", "tenantId"];
+
+const sdkAuthRequiredProperties = [
+  "clientId",
+  "subscriptionId",
+  "tenantId",
+  "activeDirectoryEndpointUrl",
+  "resourceManagerEndpointUrl",
+  "activeDirectoryGraphResourceId",
+  "sqlManagementEndpointUrl"
+];
+
+/**
+ * Parses and validates the content of an auth file. Both the format with named profiles described by {@link AuthFile}
+ * and the format created by `az ad sp create-for-rbac --sdk-auth` are supported. The latter is converted to
+ * a single "default" service principal profile.
+ *
+ * @param content - The content of the auth file.
+ * @param filePath - The path of the auth file, used in the error messages.
+ * @returns The validated auth file.
+ * @throws {AuthFileError} When the content is not valid JSON or does not match the expected format. All the problems found are reported.
+ */
+export function parseAuthFile(content: string, filePath: string): AuthFile {
+  let authFile: any;
+  try {
+    authFile = JSON.parse(content);
+  } catch (err) {
+    throw new AuthFileError(filePath, [{ path: "", message: `The content is not valid JSON: ${err.message}` }], { cause: err });
+  }
+
+  const issues: AuthFileIssue[] = [];
+  if (!_isObject(authFile)) {
+    issues.push({ path: "", message: "The content must be a JSON object" });
+  } else if (authFile.profiles === undefined) {
+    _validateSdkAuthFile(authFile, issues);
+  } else {
+    _validateProfiles(authFile, issues);
+  }
+  if (issues.length) {
+    throw new AuthFileError(filePath, issues);
+  }
+
+  return authFile.profiles === undefined ? _convertSdkAuthFile(authFile) : authFile;
+}
+
+/**
+ * Selects the profile of an auth file. The profile is, in order of precedence:
+ * - The given profile name.
+ * - The profile named by the environment variable `AZURE_AUTH_PROFILE`.
+ * - The `defaultProfile` of the file.
+ * - The only profile of the file.
+ *
+ * @param authFile - The auth file.
+ * @param filePath - The path of the auth file, used in the error messages.
+ * @param profileName - The name of the profile.
+ * @returns The selected profile.
+ */
+export function selectAuthFileProfile(authFile: AuthFile, filePath: string, profileName?: string): AuthFileProfile {
+  const names = Object.keys(authFile.profiles);
+  const name = profileName || process.env[AuthConstants.AZURE_AUTH_PROFILE] || authFile.defaultProfile ||
+    (names.length === 1 ? names[0] : undefined);
+  if (!name) {
+    throw new CredentialUnavailableError(`The auth file "${filePath}" contains several profiles and none is selected. ` +
+      `Provide the profile option or set the environment variable ${AuthConstants.AZURE_AUTH_PROFILE} to one of: ${names.join(", ")}.`);
+  }
+  if (!Object.prototype.hasOwnProperty.call(authFile.profiles, name)) {
+    throw new CredentialUnavailableError(`The profile "${name}" is not defined in the auth file "${filePath}". ` +
+      `The available profiles are: ${names.join(", ")}.`);
+  }
+  return authFile.profiles[name];
+}
+
+function _validateSdkAuthFile(authFile: any, issues: AuthFileIssue[]): void {
+  for (const key of sdkAuthRequiredProperties) {
+    _validateField(authFile, key, requiredString, "", issues);
+  }
+  if (!authFile.clientSecret && !authFile.clientCertificate) {
+    issues.push({ path: "", message: `Either "clientSecret" or "clientCertificate" must be present` });
+  }
+}
+
+function _validateProfiles(authFile: any, issues: AuthFileIssue[]): void {
+  for (const key of Object.keys(authFile)) {
+    if (key !== "profiles" && key !== "defaultProfile" && key !== "$schema") {
+      issues.push({ path: _childPath("", key), message: "is not a known property" });
+    }
+  }
+  if (!_isObject(authFile.profiles) || !Object.keys(authFile.profiles).length) {
+    issues.push({ path: "profiles", message: "must be an object containing at least one profile" });
+    return;
+  }
+  if (_validateField(authFile, "defaultProfile", optionalString, "", issues) &&
+    authFile.defaultProfile !== undefined &&
+    !Object.prototype.hasOwnProperty.call(authFile.profiles, authFile.defaultProfile)) {
+    issues.push({ path: "defaultProfile", message: `names the profile "${authFile.defaultProfile}", which is not defined` });
+  }
+  for (const name of Object.keys(authFile.profiles)) {
+    _validateProfile(authFile.profiles[name], _childPath("profiles", name), issues);
+  }
+}
+
+function _validateProfile(profile: any, path: string, issues: AuthFileIssue[]): void {
+  if (!_isObject(profile)) {
+    issues.push({ path, message: "must be an object" });
+    return;
+  }
+  if (typeof profile.type !== "string" || !Object.prototype.hasOwnProperty.call(profileSchemas, profile.type)) {
+    const types = Object.keys(profileSchemas).map((type) => `"${type}"`);
+    issues.push({ path: _childPath(path, "type"), message: `must be one of ${types.join(", ")}` });
+    return;
+  }
+  const schema = profileSchemas[profile.type];
+
+  for (const key of Object.keys(schema)) {
+    _validateField(profile, key, schema[key], path, issues);
+  }
+  _validateField(profile, "subscriptionId", optionalString, path, issues);
+  _validateEnvironment(profile.environment, _childPath(path, "environment"), issues);
+  for (const key of Object.keys(profile)) {
+    if (key !== "type" && key !== "subscriptionId" && key !== "environment" && !Object.prototype.hasOwnProperty.call(schema, key)) {
+      issues.push({ path: _childPath(path, key), message: `is not a known property of a ${profile.type} profile` });
+    }
+  }
+  if (profile.type === "servicePrincipal" && !profile.clientSecret === !profile.clientCertificate) {
+    issues.push({ path, message: `must have either "clientSecret" or "clientCertificate"` });
+  }
+}
+
+function _validateEnvironment(environment: any, path: string, issues: AuthFileIssue[]): void {
+  if (environment === undefined) {
+    return;
+  }
+  if (typeof environment === "string") {
+    if (!findEnvironment(environment)) {
+      issues.push({ path, message: `is not a known Azure environment` });
+    }
+    return;
+  }
+  if (!_isObject(environment)) {
+    issues.push({ path, message: "must be the name of an Azure environment or an object describing its endpoints" });
+    return;
+  }
+  _validateField(environment, "activeDirectoryEndpointUrl", requiredString, path, issues);
+  _validateField(environment, "resourceManagerEndpointUrl", requiredString, path, issues);
+  for (const key of Object.keys(environment)) {
+    if (key !== "activeDirectoryEndpointUrl" && key !== "resourceManagerEndpointUrl") {
+      _validateField(environment, key, key === "validateAuthority" ? { type: "boolean" } : optionalString, path, issues);
+    }
+  }
+}
+
+/**
+ * Checks the type of a property and records an issue when it is wrong.
+ *
+ * @returns Whether the property is valid.
+ */
+function _validateField(obj: any, key: string, schema: FieldSchema, parentPath: string, issues: AuthFileIssue[]): boolean {
+  const value = obj[key];
+  const path = _childPath(parentPath, key);
+  if (value === undefined) {
+    if (schema.required) {
+      issues.push({ path, message: "is required" });
+      return false;
+    }
+    return true;
+  }
+  if (schema.type === "string" && (typeof value !== "string" || !value)) {
+    issues.push({ path, message: "must be a non empty string" });
+    return false;
+  }
+  if (schema.type === "boolean" && typeof value !== "boolean") {
+    issues.push({ path, message: "must be a boolean" });
+    return false;
+  }
+  return true;
+}
+
+function _convertSdkAuthFile(sdkAuthFile: any): AuthFile {
+  const environment: any = {};
+  for (const key of Object.keys(sdkAuthFile)) {
+    if (sdkAuthCredentialProperties.indexOf(key) === -1) {
+      environment[key] = sdkAuthFile[key];
+    }
+  }
+  const profile: ServicePrincipalAuthFileProfile = {
+    type: "servicePrincipal",
+    clientId: sdkAuthFile.clientId,
+    tenantId: sdkAuthFile.tenantId,
+    clientSecret: sdkAuthFile.clientSecret,
+    clientCertificate: sdkAuthFile.clientCertificate,
+    subscriptionId: sdkAuthFile.subscriptionId,
+    environment
+  };
+  return { defaultProfile: "default", profiles: { default: profile } };
+}
+
+function _childPath(parentPath: string, key: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return parentPath ? `${parentPath}.${key}` : key;
+  }
+  return `${parentPath}[${JSON.stringify(key)}]`;
+}
+
+function _isObject(value: any): boolean {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
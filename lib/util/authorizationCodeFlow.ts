@@ -0,0 +1,307 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as http from "http";
+import { ChildProcess, spawn } from "child_process";
+import { createHash, randomBytes } from "crypto";
+import { AddressInfo } from "net";
+import { URL } from "url";
+import { DefaultHttpClient, HttpClient, HttpOperationResponse, WebResource } from "@azure/ms-rest-js";
+import { Environment } from "@azure/ms-rest-azure-env";
+import { AuthenticationContext, TokenResponse } from "adal-node";
+import { AuthenticationError, CredentialUnavailableError, TokenCacheError, createAdalError } from "./authErrors";
+import { getAuthorityUrl } from "./environmentUtils";
+
+/**
+ * Opens the given URL in a browser, for example by spawning the system browser or by driving a headless browser in tests.
+ */
+export type BrowserOpener = (url: string) => void | Promise<void>;
+
+/**
+ * Describes the parameters of {@link acquireTokenWithBrowser}.
+ */
+export interface AuthorizationCodeFlowOptions {
+  /**
+   * The active directory application client id. The application must allow "http://localhost" as a redirect uri.
+   */
+  clientId: string;
+  /**
+   * The domain or tenant id in which the user signs in.
+   */
+  domain: string;
+  /**
+   * The resource for which the token is requested.
+   */
+  resource: string;
+  /**
+   * The azure environment to authenticate with.
+   */
+  environment: Environment;
+  /**
+   * Opens the authorization URL. Default value opens the system browser.
+   */
+  openBrowser?: BrowserOpener;
+  /**
+   * The port of the local server receiving the redirect. Default value is a random free port.
+   */
+  redirectPort?: number;
+  /**
+   * The time to wait for the user to sign in. Default value is 300000 milliseconds (5 minutes).
+   */
+  timeoutInMs?: number;
+  /**
+   * The client responsible for sending the token request. By default it is Axios-based {@link DefaultHttpClient}.
+   */
+  httpClient?: HttpClient;
+}
+
+const defaultTimeoutInMs = 5 * 60 * 1000;
+
+const successPage = "<html><body><h1>Authentication complete.</h1><p>You can close this window and return to the application.</p></body></html>";
+const failurePage = "<html><body><h1>Authentication failed.</h1><p>Return to the application for the details.</p></body></html>";
+
+/**
+ * Signs the user in with the authorization code flow and PKCE (Proof Key for Code Exchange). A local server on a
+ * loopback port receives the redirect of Azure Active Directory, the state is checked against the one sent, and the
+ * authorization code is exchanged for an access token and a refresh token.
+ *
+ * @param options - The parameters of the flow.
+ * @returns The token response, in the format of adal.
+ */
+export async function acquireTokenWithBrowser(options: AuthorizationCodeFlowOptions): Promise<TokenResponse> {
+  const verifier = _base64Url(randomBytes(32));
+  const challenge = _base64Url(createHash("sha256").update(verifier).digest());
+  const state = _base64Url(randomBytes(16));
+  const authorityUrl = getAuthorityUrl(options.environment, options.domain);
+
+  const server = http.createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.redirectPort || 0, "localhost", () => resolve());
+  });
+
+  let code: string;
+  let redirectUri: string;
+  let redirect: RedirectListener | undefined;
+  try {
+    redirectUri = `http://localhost:${(server.address() as AddressInfo).port}`;
+    const authorizeUrl = `${authorityUrl}/oauth2/authorize?` + _encodeForm({
+      response_type: "code",
+      client_id: options.clientId,
+      redirect_uri: redirectUri,
+      resource: options.resource,
+      state,
+      code_challenge: challenge,
+      code_challenge_method: "S256",
+      prompt: "select_account"
+    });
+
+    redirect = _waitForRedirect(server, state, options.timeoutInMs || defaultTimeoutInMs);
+    try {
+      await (options.openBrowser || _openSystemBrowser)(authorizeUrl);
+    } catch (err) {
+      redirect.code.catch(() => undefined);
+      throw new CredentialUnavailableError(`Failed to open the browser. Open ${authorizeUrl} manually instead: ${err.message}`, { cause: err });
+    }
+    code = await redirect.code;
+  } finally {
+    if (redirect) {
+      redirect.dispose();
+    }
+    server.close();
+  }
+
+  return _redeemAuthorizationCode(options, authorityUrl, {
+    grant_type: "authorization_code",
+    client_id: options.clientId,
+    code,
+    redirect_uri: redirectUri,
+    resource: options.resource,
+    code_verifier: verifier
+  });
+}
+
+/**
+ * Adds the token response of a user to the token cache of the authentication context, replacing the entries of the
+ * same user and client. The refresh token of the entry is then redeemed by adal for the other resources.
+ *
+ * @param authContext - The authentication context whose cache receives the token.
+ * @param clientId - The active directory application client id.
+ * @param tokenResponse - The token response.
+ */
+export function addTokenToCache(authContext: AuthenticationContext, clientId: string, tokenResponse: TokenResponse): Promise<void> {
+  const cache = authContext.cache;
+  const entry: any = {
+    ...tokenResponse,
+    isMRRT: true,
+    _clientId: clientId,
+    _authority: authContext.authority
+  };
+  return new Promise<void>((resolve, reject) => {
+    cache.find({ _clientId: clientId, userId: tokenResponse.userId }, (findError: Error, entries: any[]) => {
+      if (findError) {
+        return reject(new TokenCacheError(`Failed to read the token cache: ${findError.message}`, { cause: findError }));
+      }
+      cache.remove(entries || [], (removeError: Error) => {
+        if (removeError) {
+          return reject(new TokenCacheError(`Failed to update the token cache: ${removeError.message}`, { cause: removeError }));
+        }
+        cache.add([entry], (addError: Error) => {
+          if (addError) {
+            return reject(new TokenCacheError(`Failed to update the token cache: ${addError.message}`, { cause: addError }));
+          }
+          resolve();
+        });
+      });
+    });
+  });
+}
+
+/**
+ * Waits for the redirect of Azure Active Directory to the local server.
+ */
+interface RedirectListener {
+  /**
+   * Resolves with the authorization code of the first redirect, and rejects when the redirect carries an error or an
+   * unexpected state, or when no redirect is received in time.
+   */
+  code: Promise<string>;
+  /**
+   * Stops waiting, so that the timer does not keep the process alive.
+   */
+  dispose(): void;
+}
+
+function _waitForRedirect(server: http.Server, state: string, timeoutInMs: number): RedirectListener {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const code = new Promise<string>((resolve, reject) => {
+    timer = setTimeout(() => {
+      reject(new CredentialUnavailableError(`The sign in was not completed within ${timeoutInMs} milliseconds.`));
+    }, timeoutInMs);
+
+    server.on("request", (request: http.IncomingMessage, response: http.ServerResponse) => {
+      const query = new URL(request.url || "/", "http://localhost").searchParams;
+      if (!query.has("code") && !query.has("error")) {
+        // Requests like "/favicon.ico" are not the redirect.
+        response.writeHead(404, { Connection: "close" });
+        response.end();
+        return;
+      }
+
+      clearTimeout(timer!);
+      let error: AuthenticationError | undefined;
+      if (query.get("state") !== state) {
+        error = new AuthenticationError("The state returned by Azure Active Directory does not match the state of the request.");
+      } else if (query.has("error")) {
+        error = createAdalError(undefined, { error: query.get("error"), error_description: query.get("error_description") });
+      }
+      response.writeHead(error ? 400 : 200, { "Content-Type": "text/html; charset=utf-8", Connection: "close" });
+      response.end(error ? failurePage : successPage);
+      return error ? reject(error) : resolve(query.get("code")!);
+    });
+  });
+  return { code, dispose: () => clearTimeout(timer!) };
+}
+
+async function _redeemAuthorizationCode(
+  options: AuthorizationCodeFlowOptions,
+  authorityUrl: string,
+  body: { [key: string]: string }
+): Promise<TokenResponse> {
+  const url = `${authorityUrl}/oauth2/token`;
+  const webResource = new WebResource(url, "POST", _encodeForm(body));
+  webResource.headers.set("Content-Type", "application/x-www-form-urlencoded; charset=UTF-8");
+
+  let response: HttpOperationResponse;
+  try {
+    response = await (options.httpClient || new DefaultHttpClient()).sendRequest(webResource);
+  } catch (err) {
+    throw new AuthenticationError(`Failed to send the token request to "${url}": ${err.message || err}`, { cause: err });
+  }
+
+  const parsedBody = _parseJson(response.bodyAsText);
+  if (response.status !== 200 || !parsedBody || !parsedBody.access_token) {
+    throw createAdalError(
+      new Error(`Get Token request returned http error: ${response.status} and server response: ${response.bodyAsText}`),
+      parsedBody
+    );
+  }
+  return _convertTokenResponse(parsedBody, options.resource);
+}
+
+/**
+ * Converts the snake_case token response of Azure Active Directory to the camelCase TokenResponse of adal,
+ * including the user information of the id_token that adal uses to find the tokens of a user in the cache.
+ */
+function _convertTokenResponse(body: any, resource: string): TokenResponse {
+  const expiresIn = parseInt(body.expires_in, 10);
+  const tokenResponse: any = {
+    tokenType: body.token_type,
+    expiresIn,
+    expiresOn: new Date(Date.now() + expiresIn * 1000),
+    resource: body.resource || resource,
+    accessToken: body.access_token,
+    refreshToken: body.refresh_token
+  };
+
+  const idToken = typeof body.id_token === "string" ? _parseJson(_decodeBase64Url(body.id_token.split(".")[1] || "")) : undefined;
+  if (idToken) {
+    tokenResponse.userId = idToken.upn || idToken.email || idToken.unique_name || idToken.sub;
+    tokenResponse.isUserIdDisplayable = !!(idToken.upn || idToken.email || idToken.unique_name);
+    tokenResponse.tenantId = idToken.tid;
+    tokenResponse.oid = idToken.oid;
+    tokenResponse.givenName = idToken.given_name;
+    tokenResponse.familyName = idToken.family_name;
+    tokenResponse.identityProvider = idToken.idp;
+  }
+  if (!tokenResponse.userId) {
+    throw new AuthenticationError("The token response of Azure Active Directory does not identify the user.");
+  }
+  return tokenResponse;
+}
+
+function _openSystemBrowser(url: string): Promise<void> {
+  const [command, args] = process.platform === "win32"
+    ? ["cmd", ["/c", "start", "\"\"", url.replace(/&/g, "^&")]]
+    : [process.platform === "darwin" ? "open" : "xdg-open", [url]];
+  return new Promise<void>((resolve, reject) => {
+    let child: ChildProcess;
+    try {
+      child = spawn(command as string, args as string[], { detached: true, stdio: "ignore", windowsVerbatimArguments: true });
+    } catch (err) {
+      return reject(err);
+    }
+    child.once("error", reject);
+    // A command that cannot be started emits "error" before the next turn of the event loop. The "spawn" event
+    // telling that it started only exists from Node 14.17.
+    setImmediate(() => {
+      child.unref();
+      resolve();
+    });
+  });
+}
+
+function _encodeForm(values: { [key: string]: string }): string {
+  return Object.keys(values)
+    .map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(values[key])}`)
+    .join("&");
+}
+
+function _parseJson(text: string | null | undefined): any {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    return undefined;
+  }
+}
+
+function _base64Url(value: Buffer): string {
+  return value.toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+function _decodeBase64Url(value: string): string {
+  return Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64").toString("utf8");
+}
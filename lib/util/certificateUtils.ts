@@ -0,0 +1,172 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { createHash, createSign, randomBytes } from "crypto";
+import * as forge from "node-forge";
+
+const certificatePattern = /-+BEGIN CERTIFICATE-+\s*([A-Za-z0-9\+\/\s]+=*)\s*-+END CERTIFICATE-+/g;
+const privateKeyPattern = /-+BEGIN (?:[A-Z]+ )?PRIVATE KEY-+[\s\S]+?-+END (?:[A-Z]+ )?PRIVATE KEY-+/;
+
+/**
+ * The number of seconds for which the client assertions created by {@link createCertificateAssertion} are valid.
+ */
+const assertionLifetimeInSeconds = 600;
+
+/**
+ * The private key and the certificates read from a PEM or PFX/PKCS#12 certificate.
+ */
+export interface ParsedCertificate {
+  /**
+   * The PEM encoded, unencrypted private key. It may be followed or preceded by the certificates.
+   */
+  privateKey: string;
+  /**
+   * The hex encoded SHA-1 thumbprint of the certificate of the private key.
+   */
+  thumbprint: string;
+  /**
+   * The base64 encoded DER certificates, starting with the certificate of the private key followed by
+   * the rest of the chain. This is the value of the "x5c" header of the client assertion.
+   */
+  certificateChain: string[];
+}
+
+/**
+ * Reads the private key and the certificate chain from a PEM or PFX/PKCS#12 certificate.
+ *
+ * @param certificate - The PEM encoded certificate and private key as a string or Buffer, or the PFX/PKCS#12 content as a Buffer.
+ * @param password - The password of a PFX/PKCS#12 certificate or of an encrypted PEM private key.
+ * @param publicCertificate - The PEM encoded certificate chain, for a PEM value that only contains the private key.
+ */
+export function parseCertificate(certificate: string | Buffer, password?: string, publicCertificate?: string): ParsedCertificate {
+  if (Buffer.isBuffer(certificate) && !_isPem(certificate)) {
+    return _parsePfx(certificate, password);
+  }
+  return _parsePem(certificate.toString(), password, publicCertificate);
+}
+
+/**
+ * Creates a client assertion signed with the private key of a certificate, with the "x5c" header containing
+ * the certificate chain as required by subject name and issuer authentication.
+ *
+ * @param clientId - The active directory application client id.
+ * @param tokenEndpoint - The URL of the token endpoint, which is the audience of the assertion.
+ * @param certificate - The parsed certificate.
+ * @returns The signed JWT.
+ */
+export function createCertificateAssertion(clientId: string, tokenEndpoint: string, certificate: ParsedCertificate): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = {
+    alg: "RS256",
+    typ: "JWT",
+    x5t: _base64Url(Buffer.from(certificate.thumbprint, "hex")),
+    x5c: certificate.certificateChain
+  };
+  const payload = {
+    aud: tokenEndpoint,
+    iss: clientId,
+    sub: clientId,
+    jti: randomBytes(16).toString("hex"),
+    nbf: now,
+    exp: now + assertionLifetimeInSeconds
+  };
+  const unsigned = `${_base64Url(Buffer.from(JSON.stringify(header)))}.${_base64Url(Buffer.from(JSON.stringify(payload)))}`;
+  const signature = createSign("RSA-SHA256").update(unsigned).sign(certificate.privateKey);
+  return `${unsigned}.${_base64Url(signature)}`;
+}
+
+function _parsePem(pem: string, password?: string, publicCertificate?: string): ParsedCertificate {
+  const keyMatch = pem.match(privateKeyPattern);
+  if (!keyMatch) {
+    throw new Error("Unable to correctly parse the private key from the value provided in 'certificateStringOrFilePath'.");
+  }
+  const certificateChain = _readPemCertificates(publicCertificate ? `${pem}\n${publicCertificate}` : pem);
+  if (!certificateChain.length) {
+    throw new Error("Unable to correctly parse the certificate from the value provided in 'certificateStringOrFilePath'.");
+  }
+
+  // Unencrypted values are used as they are, the private key is found in them when the assertion is signed.
+  let privateKey = pem;
+  if (/ENCRYPTED/.test(keyMatch[0])) {
+    if (!password) {
+      throw new Error("The private key is encrypted, but no certificatePassword was provided.");
+    }
+    let key: forge.pki.rsa.PrivateKey | undefined;
+    try {
+      key = forge.pki.decryptRsaPrivateKey(keyMatch[0], password) || undefined;
+    } catch (err) {
+      throw new Error(`Unable to decrypt the private key: ${err.message}`);
+    }
+    if (!key) {
+      throw new Error("Unable to decrypt the private key. The certificatePassword may be incorrect.");
+    }
+    privateKey = forge.pki.privateKeyToPem(key);
+  }
+
+  return {
+    privateKey,
+    thumbprint: _getThumbprint(certificateChain[0]),
+    certificateChain
+  };
+}
+
+function _parsePfx(pfx: Buffer, password?: string): ParsedCertificate {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(pfx.toString("binary")), password || "");
+  } catch (err) {
+    throw new Error(`Unable to read the PFX/PKCS#12 certificate: ${err.message}`);
+  }
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || [])
+  ];
+  const key = keyBags.map((bag) => bag.key).find((bagKey) => !!bagKey) as forge.pki.rsa.PrivateKey | undefined;
+  if (!key) {
+    throw new Error("The PFX/PKCS#12 certificate does not contain an RSA private key.");
+  }
+  const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [])
+    .map((bag) => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => !!cert);
+  // The certificate of the private key comes first, since Azure Active Directory expects it first in the "x5c" header.
+  const leafIndex = certificates.findIndex((cert) => _isCertificateOfKey(cert, key));
+  if (leafIndex < 0) {
+    throw new Error("The PFX/PKCS#12 certificate does not contain the certificate of its private key.");
+  }
+  const certificateChain = [certificates[leafIndex], ...certificates.filter((_, index) => index !== leafIndex)]
+    .map((cert) => Buffer.from(forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).getBytes(), "binary").toString("base64"));
+
+  return {
+    privateKey: forge.pki.privateKeyToPem(key),
+    thumbprint: _getThumbprint(certificateChain[0]),
+    certificateChain
+  };
+}
+
+function _readPemCertificates(pem: string): string[] {
+  const certificates: string[] = [];
+  let match: RegExpExecArray | null;
+  certificatePattern.lastIndex = 0;
+  while ((match = certificatePattern.exec(pem))) {
+    certificates.push(match[1].replace(/\s/g, ""));
+  }
+  return certificates;
+}
+
+function _isCertificateOfKey(cert: forge.pki.Certificate, key: forge.pki.rsa.PrivateKey): boolean {
+  const publicKey = cert.publicKey as forge.pki.rsa.PublicKey;
+  return !!publicKey && !!publicKey.n && publicKey.n.compareTo(key.n) === 0;
+}
+
+function _getThumbprint(base64Certificate: string): string {
+  return createHash("sha1").update(Buffer.from(base64Certificate, "base64")).digest("hex");
+}
+
+function _isPem(content: Buffer): boolean {
+  return content.toString("utf8", 0, Math.min(content.length, 1024)).includes("-----BEGIN");
+}
+
+function _base64Url(value: Buffer): string {
+  return value.toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
@@ -0,0 +1,204 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { DefaultHttpClient, HttpClient, HttpOperationResponse, WebResource } from "@azure/ms-rest-js";
+import { Environment, EnvironmentParameters } from "@azure/ms-rest-azure-env";
+import { AuthenticationContext, TokenCache } from "adal-node";
+import { AuthConstants } from "./authConstants";
+import { ResourceManagerError } from "./authErrors";
+
+/**
+ * Describes optional parameters to load an Azure environment from the metadata endpoint of Azure Resource Manager.
+ */
+export interface LoadEnvironmentOptions {
+  /**
+   * The name of the environment to register. Default value is the name given by the metadata, or else the host of
+   * the Azure Resource Manager endpoint, for example "management.local.azurestack.external".
+   */
+  name?: string;
+  /**
+   * The api-version of the metadata endpoint. Default value is "2019-05-01". Azure Stack Hub also supports "2015-01-01".
+   */
+  apiVersion?: string;
+  /**
+   * The client sending the metadata request. Default value is {@link DefaultHttpClient}.
+   */
+  httpClient?: HttpClient;
+}
+
+/**
+ * Finds a known Azure environment by its name like "AzureChinaCloud", or by the name of the property of
+ * `Environment` holding it like "ChinaCloud". The comparison is case insensitive. Environments registered
+ * with `Environment.add()` are found too.
+ *
+ * @param name - The name of the environment.
+ * @returns The environment, or `undefined` when no environment has that name.
+ */
+export function findEnvironment(name: string): Environment | undefined {
+  const lowerCaseName = name.toLowerCase();
+  for (const key of Object.keys(Environment)) {
+    const environment = (Environment as any)[key];
+    if (environment && typeof environment.activeDirectoryEndpointUrl === "string" &&
+      (key.toLowerCase() === lowerCaseName ||
+        (environment.name && environment.name.toLowerCase() === lowerCaseName))) {
+      return environment;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the known Azure environment whose Active Directory endpoint issued the tokens of an authority like
+ * "https://login.microsoftonline.com/common". Environments registered with `Environment.add()` are found too.
+ *
+ * @param authority - The authority URL.
+ * @returns The environment, or `undefined` when the authority does not belong to a known environment.
+ */
+export function findEnvironmentByAuthority(authority: string): Environment | undefined {
+  const host = _getHost(authority);
+  for (const key of Object.keys(Environment)) {
+    const environment = (Environment as any)[key];
+    if (environment && typeof environment.activeDirectoryEndpointUrl === "string" &&
+      host && _getHost(environment.activeDirectoryEndpointUrl) === host) {
+      return environment;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Tells whether the tokens of an environment are issued by Active Directory Federation Services (ADFS), like those of
+ * disconnected Azure Stack Hub deployments: the domain is "adfs", or the Active Directory endpoint ends with "/adfs".
+ *
+ * @param environment - The environment.
+ * @param domain - The domain or tenant id of the credentials.
+ */
+export function isAdfs(environment: Environment, domain?: string): boolean {
+  return (!!domain && domain.toLowerCase() === AuthConstants.ADFS_TENANT) ||
+    /\/adfs\/?$/i.test(environment.activeDirectoryEndpointUrl);
+}
+
+/**
+ * Gets the authority issuing the tokens of a domain, for example "https://login.microsoftonline.com/tenant-id". ADFS has
+ * a single authority without tenants, for example "https://adfs.local.azurestack.external/adfs".
+ *
+ * @param environment - The environment.
+ * @param domain - The domain or tenant id.
+ */
+export function getAuthorityUrl(environment: Environment, domain: string): string {
+  if (isAdfs(environment, domain)) {
+    const endpoint = environment.activeDirectoryEndpointUrl.replace(/\/+$/, "");
+    return /\/adfs$/i.test(endpoint) ? endpoint : `${endpoint}/${AuthConstants.ADFS_TENANT}`;
+  }
+  return environment.activeDirectoryEndpointUrl + domain;
+}
+
+/**
+ * Creates the adal context acquiring the tokens of a domain. The authority is not validated for ADFS, since adal
+ * only knows how to discover the instances of Azure Active Directory.
+ *
+ * @param environment - The environment.
+ * @param domain - The domain or tenant id.
+ * @param tokenCache - The token cache.
+ */
+export function createAuthenticationContext(environment: Environment, domain: string, tokenCache?: TokenCache): AuthenticationContext {
+  const validateAuthority = isAdfs(environment, domain) ? false : environment.validateAuthority;
+  return new AuthenticationContext(getAuthorityUrl(environment, domain), validateAuthority, tokenCache);
+}
+
+/**
+ * Gets the endpoints of an Azure cloud, for example Azure Stack Hub or a sovereign cloud, from the
+ * `/metadata/endpoints` of its Azure Resource Manager endpoint, and registers them as an environment that can be
+ * passed to any login method. A known environment with the same Azure Resource Manager endpoint is returned as is.
+ *
+ * @param armEndpoint - The Azure Resource Manager endpoint, for example "https://management.local.azurestack.external".
+ * @param options - Object representing optional parameters.
+ * @returns A promise that resolves to the environment and rejects with a ResourceManagerError when the metadata
+ * cannot be read.
+ */
+export async function loadEnvironmentFromMetadata(armEndpoint: string, options: LoadEnvironmentOptions = {}): Promise<Environment> {
+  const resourceManagerEndpointUrl = armEndpoint.endsWith("/") ? armEndpoint : `${armEndpoint}/`;
+  const knownEnvironment = _findEnvironmentByResourceManagerEndpoint(resourceManagerEndpointUrl);
+  if (knownEnvironment) {
+    return knownEnvironment;
+  }
+
+  const url = `${resourceManagerEndpointUrl}metadata/endpoints?api-version=${options.apiVersion || "2019-05-01"}`;
+  const httpClient = options.httpClient || new DefaultHttpClient();
+  let response: HttpOperationResponse;
+  try {
+    response = await httpClient.sendRequest(new WebResource(url, "GET"));
+  } catch (err) {
+    throw new ResourceManagerError(`The request "GET ${url}" failed: ${err.message}`, { cause: err });
+  }
+  let body: any;
+  try {
+    body = JSON.parse(response.bodyAsText || "");
+  } catch (err) {
+    body = undefined;
+  }
+  // The 2019-05-01 api-version lists every cloud known to the endpoint, older ones only describe the current cloud.
+  const metadata = Array.isArray(body)
+    ? body.find((cloud: any) => cloud && _getHost(cloud.resourceManager || "") === _getHost(resourceManagerEndpointUrl)) || body[0]
+    : body;
+  if (response.status >= 300 || !metadata || !metadata.authentication || !metadata.authentication.loginEndpoint) {
+    throw new ResourceManagerError(`The request "GET ${url}" did not return the metadata of the cloud (status code ${response.status}).`,
+      { statusCode: response.status, cause: body });
+  }
+
+  const parameters = _createEnvironmentParameters(metadata, resourceManagerEndpointUrl, options.name);
+  Environment.add(parameters);
+  // The constructor of Environment drops the optional endpoints, like the graph resource id.
+  return Object.assign(Environment.get(parameters.name), parameters);
+}
+
+function _createEnvironmentParameters(metadata: any, resourceManagerEndpointUrl: string, name?: string): EnvironmentParameters {
+  const authentication = metadata.authentication;
+  const audiences: string[] = authentication.audiences || [];
+  const suffixes = metadata.suffixes || {};
+  const loginEndpoint: string = authentication.loginEndpoint;
+  const graphEndpoint: string | undefined = metadata.graphEndpoint || metadata.graphAudience || metadata.graph;
+
+  const parameters: { [key: string]: string | boolean | undefined } = {
+    name: name || metadata.name || _getHost(resourceManagerEndpointUrl) || resourceManagerEndpointUrl,
+    portalUrl: metadata.portalEndpoint || metadata.portal || resourceManagerEndpointUrl,
+    managementEndpointUrl: audiences[0] || resourceManagerEndpointUrl,
+    resourceManagerEndpointUrl,
+    activeDirectoryEndpointUrl: loginEndpoint.endsWith("/") ? loginEndpoint : `${loginEndpoint}/`,
+    activeDirectoryResourceId: audiences[0] || resourceManagerEndpointUrl,
+    activeDirectoryGraphResourceId: graphEndpoint && (graphEndpoint.endsWith("/") ? graphEndpoint : `${graphEndpoint}/`),
+    galleryEndpointUrl: metadata.galleryEndpoint || metadata.gallery,
+    batchResourceId: metadata.batch,
+    sqlManagementEndpointUrl: metadata.sqlManagement,
+    storageEndpointSuffix: suffixes.storage && suffixes.storage.replace(/^\./, ""),
+    keyVaultDnsSuffix: suffixes.keyVaultDns && `.${suffixes.keyVaultDns.replace(/^\./, "")}`,
+    sqlServerHostnameSuffix: suffixes.sqlServerHostname && `.${suffixes.sqlServerHostname.replace(/^\./, "")}`,
+    azureDataLakeStoreFileSystemEndpointSuffix: suffixes.azureDataLakeStoreFileSystem,
+    azureDataLakeAnalyticsCatalogAndJobEndpointSuffix: suffixes.azureDataLakeAnalyticsCatalogAndJob,
+    // adal cannot validate the authority of ADFS.
+    validateAuthority: /^adfs$/i.test(authentication.identityProvider || "") || /\/adfs\/?$/i.test(loginEndpoint) ? false : undefined
+  };
+  for (const key of Object.keys(parameters)) {
+    if (parameters[key] === undefined || parameters[key] === "") {
+      delete parameters[key];
+    }
+  }
+  return parameters as any;
+}
+
+function _findEnvironmentByResourceManagerEndpoint(resourceManagerEndpointUrl: string): Environment | undefined {
+  const host = _getHost(resourceManagerEndpointUrl);
+  for (const key of Object.keys(Environment)) {
+    const environment = (Environment as any)[key];
+    if (environment && typeof environment.resourceManagerEndpointUrl === "string" &&
+      _getHost(environment.resourceManagerEndpointUrl) === host) {
+      return environment;
+    }
+  }
+  return undefined;
+}
+
+function _getHost(url: string): string | undefined {
+  const match = /^https?:\/\/([^\/:]+)/i.exec(url);
+  return match ? match[1].toLowerCase() : undefined;
+}
@@ -0,0 +1,30 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as fs from "fs";
+import { dirname } from "path";
+import { promisify } from "util";
+
+const mkdir = promisify(fs.mkdir);
+
+/**
+ * Creates a directory along with its missing parents, like `mkdir -p`. The `recursive` option of `fs.mkdir()` is not
+ * used, since Node 8 ignores it.
+ *
+ * @param path - The path of the directory.
+ * @param mode - The permissions of the created directories.
+ */
+export async function makeDirectory(path: string, mode?: number): Promise<void> {
+  try {
+    await mkdir(path, mode);
+  } catch (err) {
+    if (err.code === "EEXIST") {
+      return;
+    }
+    if (err.code !== "ENOENT" || dirname(path) === path) {
+      throw err;
+    }
+    await makeDirectory(dirname(path), mode);
+    await makeDirectory(path, mode);
+  }
+}
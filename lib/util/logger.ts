@@ -0,0 +1,135 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { Logging, LoggingLevel } from "adal-node";
+import { redactSecrets } from "./redaction";
+
+/**
+ * The severity of a log entry, from the most to the least severe.
+ */
+export type LogLevel = "error" | "warning" | "info" | "verbose";
+
+/**
+ * Describes a log entry of the authentication library.
+ */
+export interface AuthLogEntry {
+  /**
+   * The severity of the entry.
+   */
+  level: LogLevel;
+  /**
+   * The kind of event, for example:
+   * - "token.cache": a token was returned from a cache.
+   * - "token.network": a token was acquired from Azure Active Directory, a managed identity endpoint or the Azure CLI.
+   * - "token.refresh": a cached token close to its expiry is being refreshed.
+   * - "msi.source": the managed identity endpoint was chosen.
+   * - "cli.command": an Azure CLI command was executed.
+   * - "tenant.list": the tenants of the account could not be listed.
+   * - "deviceCode": the device code message of an interactive login.
+   * - "tokenCache.reset": an encrypted token cache was reset.
+   * - "adal": a message of adal.
+   */
+  event: string;
+  /**
+   * The human readable message.
+   */
+  message: string;
+  /**
+   * The properties of the event, like the resource or the client id. Secrets like tokens, passwords and assertions are redacted.
+   */
+  details?: { [key: string]: any };
+}
+
+/**
+ * Receives the log entries of the authentication library.
+ */
+export interface AuthLogger {
+  /**
+   * The least severe level of the entries to receive. Default value is "info".
+   */
+  level?: LogLevel;
+  /**
+   * Receives a log entry.
+   */
+  log(entry: AuthLogEntry): void;
+}
+
+const levels: LogLevel[] = ["error", "warning", "info", "verbose"];
+
+let defaultLogger: AuthLogger | undefined;
+
+/**
+ * Sets the logger receiving the entries of the credentials created without a logger, and the messages of adal.
+ * Nothing is logged by default.
+ *
+ * @param logger - The logger, or `undefined` to stop logging.
+ */
+export function setLogger(logger: AuthLogger | undefined): void {
+  defaultLogger = logger;
+  if (logger) {
+    Logging.setLoggingOptions({
+      level: levels.indexOf(logger.level || "info") as LoggingLevel,
+      log: (level: LoggingLevel, message: string, error?: Error) => {
+        logEvent(undefined, levels[level] || "verbose", "adal", message, error ? { error: error.message } : undefined);
+      }
+    });
+  } else {
+    Logging.setLoggingOptions({ level: 0, log: () => undefined });
+  }
+}
+
+/**
+ * Gets the logger set with {@link setLogger}.
+ */
+export function getLogger(): AuthLogger | undefined {
+  return defaultLogger;
+}
+
+/**
+ * Creates a logger that writes the entries to the console, for example to troubleshoot a login.
+ *
+ * @param level - The least severe level of the entries to write. Default value is "info".
+ */
+export function createConsoleLogger(level: LogLevel = "info"): AuthLogger {
+  return {
+    level,
+    log: (entry: AuthLogEntry) => {
+      const text = `[ms-rest-nodeauth] ${entry.level} ${entry.event}: ${entry.message}`;
+      const args = entry.details ? [text, entry.details] : [text];
+      if (entry.level === "error") {
+        console.error(...args);
+      } else if (entry.level === "warning") {
+        console.warn(...args);
+      } else {
+        console.info(...args);
+      }
+    }
+  };
+}
+
+/**
+ * Sends an entry to the given logger, or else to the logger set with {@link setLogger}. The secrets of the details are
+ * redacted, and the failures of the logger are ignored so that logging never breaks authentication.
+ *
+ * @param logger - The logger of the credentials, if any.
+ * @param level - The severity of the entry.
+ * @param event - The kind of event.
+ * @param message - The human readable message.
+ * @param details - The properties of the event.
+ */
+export function logEvent(logger: AuthLogger | undefined, level: LogLevel, event: string, message: string, details?: { [key: string]: any }): void {
+  const target = logger || defaultLogger;
+  if (!target || levels.indexOf(level) > levels.indexOf(target.level || "info")) {
+    return;
+  }
+  try {
+    target.log(details ? { level, event, message, details: redactSecrets(details) } : { level, event, message });
+  } catch (err) {
+    // Logging must never break authentication.
+  }
+}
+
+if (process.env["AZURE_ADAL_LOGGING_ENABLED"]) {
+  // Kept for compatibility, the entries and the messages of adal are written to the console.
+  setLogger(createConsoleLogger("verbose"));
+}
@@ -0,0 +1,89 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { inspect, InspectOptions } from "util";
+import { WebResource } from "@azure/ms-rest-js";
+
+const redacted = "[REDACTED]";
+const secretKeyPattern = /secret|password|assertion|privatekey|certificate|apikey|(^|-)key$|^(access|refresh|id)_?token$|^(device|user)?_?code$/i;
+const secretHeaderPattern = /secret|identity-header|cookie|sas|(^|-)key$/i;
+const authorizationHeaderPattern = /^(proxy-)?authorization$/i;
+
+/**
+ * Replaces the values of the properties holding secrets, like "accessToken", "clientSecret" or "password", by "[REDACTED]".
+ *
+ * @param details - The properties to redact. They are not modified.
+ * @returns A copy of the properties with the secrets redacted.
+ */
+export function redactSecrets(details: { [key: string]: any }): { [key: string]: any } {
+  const result: { [key: string]: any } = {};
+  for (const key of Object.keys(details)) {
+    const value = details[key];
+    if (value !== undefined && secretKeyPattern.test(key)) {
+      result[key] = redacted;
+    } else if (value && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date)) {
+      result[key] = redactSecrets(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Gets the headers of a request with the tokens and secrets redacted, to log the request. The scheme of the
+ * Authorization header is kept, for example "Bearer [REDACTED]".
+ *
+ * @param webResource - The request, for example one signed by `signRequest()`. It is not modified.
+ * @returns The headers of the request, by name.
+ */
+export function redactWebResourceHeaders(webResource: WebResource): { [name: string]: string } {
+  const result: { [name: string]: string } = {};
+  for (const header of webResource.headers.headersArray()) {
+    if (authorizationHeaderPattern.test(header.name)) {
+      const scheme = header.value.split(" ")[0];
+      result[header.name] = scheme && scheme !== header.value ? `${scheme} ${redacted}` : redacted;
+    } else if (secretHeaderPattern.test(header.name) || secretKeyPattern.test(header.name)) {
+      result[header.name] = redacted;
+    } else {
+      result[header.name] = header.value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Gets the public properties of credentials with the secrets and tokens redacted, for their `toJSON()` method.
+ * Private properties, prefixed with an underscore, are left out. Nested credentials are expected to redact themselves.
+ *
+ * @param credentials - The credentials.
+ * @param opaqueProperties - The properties replaced by the name of their type, like the adal token cache.
+ */
+export function redactCredentials(credentials: object, opaqueProperties: string[] = ["authContext", "tokenCache"]): { [key: string]: any } {
+  const result: { [key: string]: any } = {};
+  for (const key of Object.keys(credentials)) {
+    const value = (credentials as any)[key];
+    if (key.startsWith("_") || typeof value === "function") {
+      continue;
+    }
+    if (value && opaqueProperties.indexOf(key) >= 0) {
+      result[key] = `[${(value.constructor && value.constructor.name) || typeof value}]`;
+    } else if (value && typeof value.toJSON === "function" && !(value instanceof Date)) {
+      result[key] = value;
+    } else {
+      result[key] = redactSecrets({ [key]: value })[key];
+    }
+  }
+  return result;
+}
+
+/**
+ * Formats credentials for `console.log()` and `util.inspect()` from their redacted `toJSON()`.
+ *
+ * @param credentials - The credentials.
+ * @param options - The options given to the `util.inspect.custom` method.
+ */
+export function inspectCredentials(credentials: { toJSON(): { [key: string]: any } }, options: InspectOptions = {}): string {
+  const nestedOptions = { ...options, depth: typeof options.depth === "number" ? options.depth - 1 : options.depth };
+  return `${credentials.constructor.name} ${inspect(credentials.toJSON(), nestedOptions)}`;
+}
@@ -0,0 +1,128 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { Environment } from "@azure/ms-rest-azure-env";
+
+/**
+ * Maps the host of a request URL to the resource for which the token signing the request is acquired.
+ * A key is either a host name like "management.azure.com", or a suffix starting with a dot like
+ * ".vault.azure.net" that matches all the hosts ending with it. Host names take precedence over suffixes,
+ * and longer suffixes over shorter ones.
+ */
+export interface HostToResourceMap {
+  [host: string]: string;
+}
+
+/**
+ * Creates the map of the hosts of Azure Resource Manager, Azure Active Directory Graph, Key Vault,
+ * Storage and SQL Database to their resources in the given Azure environment.
+ *
+ * @param environment - The azure environment. Default value is AzureCloud.
+ */
+export function createHostToResourceMap(environment: Environment = Environment.AzureCloud): HostToResourceMap {
+  const map: HostToResourceMap = {};
+  const add = (url: string | undefined, resource: string | undefined) => {
+    const host = url && _getHost(url);
+    if (host && resource) {
+      map[host] = resource;
+    }
+  };
+
+  add(environment.resourceManagerEndpointUrl, environment.activeDirectoryResourceId);
+  add(environment.managementEndpointUrl, environment.activeDirectoryResourceId);
+  add(environment.activeDirectoryGraphResourceId, environment.activeDirectoryGraphResourceId);
+  if (environment.keyVaultDnsSuffix) {
+    const suffix = _withLeadingDot(environment.keyVaultDnsSuffix);
+    map[suffix] = `https://${suffix.substring(1)}`;
+  }
+  if (environment.storageEndpointSuffix) {
+    const suffix = _withLeadingDot(environment.storageEndpointSuffix);
+    for (const service of ["blob", "queue", "table", "file", "dfs"]) {
+      map[`.${service}${suffix}`] = "https://storage.azure.com/";
+    }
+  }
+  if (environment.sqlServerHostnameSuffix) {
+    const suffix = _withLeadingDot(environment.sqlServerHostnameSuffix);
+    map[suffix] = `https://${suffix.substring(1)}/`;
+  }
+  return map;
+}
+
+/**
+ * Finds the resource for the host of the given URL in the map.
+ *
+ * @param url - The URL of the request.
+ * @param map - The map of hosts to resources.
+ * @returns The resource, or `undefined` when the map does not contain the host.
+ */
+export function getResourceForUrl(url: string, map: HostToResourceMap | undefined): string | undefined {
+  const host = map && _getHost(url);
+  if (!map || !host) {
+    return undefined;
+  }
+  if (Object.prototype.hasOwnProperty.call(map, host)) {
+    return map[host];
+  }
+
+  let match: string | undefined;
+  for (const key of Object.keys(map)) {
+    if (key.startsWith(".") && host.endsWith(key.toLowerCase()) && (!match || key.length > match.length)) {
+      match = key;
+    }
+  }
+  return match && map[match];
+}
+
+/**
+ * Converts the scopes of a token request of the Microsoft identity platform to the resource of Azure Active Directory.
+ * The "/.default" suffix is removed, for example "https://vault.azure.net/.default" becomes "https://vault.azure.net".
+ * For other scopes like "https://graph.windows.net/User.Read" the permission is removed, since tokens are
+ * always issued for all the permissions granted to the application on the resource.
+ *
+ * @param scopes - The scope or scopes. All of them must belong to the same resource.
+ * @returns The resource.
+ */
+export function getResourceFromScopes(scopes: string | string[]): string {
+  const resources = (Array.isArray(scopes) ? scopes : [scopes]).map(_getResourceFromScope);
+  if (!resources.length || !resources[0]) {
+    throw new Error("At least one scope must be provided.");
+  }
+  for (const resource of resources) {
+    if (_withoutTrailingSlash(resource) !== _withoutTrailingSlash(resources[0])) {
+      throw new Error(`The scopes must belong to a single resource, but they belong to "${resources[0]}" and "${resource}".`);
+    }
+  }
+  return resources[0];
+}
+
+/**
+ * Converts a resource of Azure Active Directory to the ".default" scope of the Microsoft identity platform, for example
+ * "https://vault.azure.net" becomes "https://vault.azure.net/.default".
+ *
+ * @param resource - The resource.
+ * @returns The scope.
+ */
+export function getScopeFromResource(resource: string): string {
+  return `${_withoutTrailingSlash(resource)}/.default`;
+}
+
+function _getResourceFromScope(scope: string): string {
+  if (scope.endsWith("/.default")) {
+    return scope.slice(0, -"/.default".length);
+  }
+  const match = scope.match(/^([a-z][a-z0-9+.-]*:\/\/[^\/]+(?:\/.*)?)\/[^\/]+$/i);
+  return match ? match[1] : scope;
+}
+
+function _withoutTrailingSlash(resource: string): string {
+  return resource.endsWith("/") ? resource.slice(0, -1) : resource;
+}
+
+function _getHost(url: string): string | undefined {
+  const match = url.match(/^[a-z][a-z0-9+.-]*:\/\/(?:[^@\/?#]*@)?([^:\/?#]+)/i);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+function _withLeadingDot(suffix: string): string {
+  return suffix.startsWith(".") ? suffix.toLowerCase() : `.${suffix.toLowerCase()}`;
+}
@@ -11,7 +11,8 @@ const banner = `/** @license ms-rest-azure-env
 export default {
   input: './dist/lib/msRestNodeAuth.js',
   external: [
-    "adal-node"
+    "adal-node",
+    "node-forge"
   ],
   output: {
     file: "./dist/msRestNodeAuth.js",
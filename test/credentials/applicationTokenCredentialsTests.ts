@@ -0,0 +1,78 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { expect } from "chai";
+import { AuthenticationContext } from "adal-node";
+import { Environment } from "@azure/ms-rest-azure-env";
+import { WebResource } from "@azure/ms-rest-js";
+import { ApplicationTokenCredentials } from "../../lib/credentials/applicationTokenCredentials";
+import { buildTenantList } from "../../lib/subscriptionManagement/subscriptionUtils";
+
+describe("ApplicationTokenCredentials", () => {
+  const prototype = AuthenticationContext.prototype;
+  const acquireTokenWithClientCredentials = prototype.acquireTokenWithClientCredentials;
+  let resources: string[];
+  let failNextRequest: boolean;
+
+  beforeEach(() => {
+    resources = [];
+    failNextRequest = false;
+    prototype.acquireTokenWithClientCredentials = function (resource, _clientId, _secret, callback) {
+      resources.push(resource);
+      const fail = failNextRequest;
+      failNextRequest = false;
+      setTimeout(() => fail
+        ? callback(new Error("Throttled"), { error: "temporarily_unavailable", errorDescription: "Throttled" } as any)
+        : callback(undefined as any, { tokenType: "Bearer", accessToken: `token${resources.length}`, expiresIn: 3599, expiresOn: new Date(), resource }), 10);
+    };
+  });
+
+  afterEach(() => {
+    prototype.acquireTokenWithClientCredentials = acquireTokenWithClientCredentials;
+  });
+
+  it("should share a single token request between concurrent calls for the same resource", async () => {
+    const creds = new ApplicationTokenCredentials("client-id", "tenant-id", "secret");
+
+    const tokenResponses = await Promise.all([
+      ...Array.from({ length: 20 }, () => creds.getToken()),
+      creds.getToken("https://vault.azure.net"),
+      creds.getToken("https://vault.azure.net")
+    ]);
+
+    expect(resources).to.deep.equal(["https://management.core.windows.net/", "https://vault.azure.net"]);
+    expect(tokenResponses.slice(0, 20).every((tokenResponse) => tokenResponse === tokenResponses[0])).to.equal(true);
+    expect(tokenResponses[20].accessToken).to.equal("token2");
+  });
+
+  it("should reject every concurrent call when the shared request fails, and request again on the next call", async () => {
+    const creds = new ApplicationTokenCredentials("client-id", "tenant-id", "secret");
+    failNextRequest = true;
+
+    const results = await Promise.all([creds.getToken(), creds.getToken()].map((promise) => promise.catch((err: Error) => err)));
+
+    expect(results.map((result) => (result as Error).message)).to.deep.equal(["Throttled", "Throttled"]);
+    expect((await creds.getToken()).accessToken).to.equal("token2");
+    expect(resources.length).to.equal(2);
+  });
+
+  it("should get tokens from ADFS and sign requests with the Bearer scheme", async () => {
+    prototype.acquireTokenWithClientCredentials = function (this: AuthenticationContext, resource, _clientId, _secret, callback) {
+      resources.push(`${this.authority} ${resource}`);
+      setImmediate(() => callback(undefined as any, { tokenType: "bearer", accessToken: "token", expiresIn: 3599, expiresOn: new Date(), resource }));
+    };
+    const environment = {
+      ...Environment.AzureCloud,
+      name: "AzureStackAdfs",
+      activeDirectoryEndpointUrl: "https://adfs.local.azurestack.external/adfs/",
+      activeDirectoryResourceId: "https://management.adfs.azurestack.local/5f3c3a5b-2a8e-4c11-9c55-0a9b2f4dbf36"
+    } as Environment;
+    const creds = new ApplicationTokenCredentials("client-id", "adfs", "secret", undefined, environment);
+
+    const webResource = await creds.signRequest(new WebResource("https://management.local.azurestack.external/subscriptions"));
+
+    expect(resources).to.deep.equal(["https://adfs.local.azurestack.external/adfs https://management.adfs.azurestack.local/5f3c3a5b-2a8e-4c11-9c55-0a9b2f4dbf36"]);
+    expect(webResource.headers.get("authorization")).to.equal("Bearer token");
+    expect(await buildTenantList(creds)).to.deep.equal(["adfs"]);
+  });
+});
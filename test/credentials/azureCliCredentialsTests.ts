@@ -0,0 +1,108 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { expect } from "chai";
+import { AzureCliCredentials, CliAccessToken } from "../../lib/credentials/azureCliCredentials";
+import { LinkedSubscription } from "../../lib/subscriptionManagement/subscriptionUtils";
+import { AzureCliError } from "../../lib/util/authErrors";
+
+const subscription: LinkedSubscription = {
+  tenantId: "tenant-id",
+  user: { name: "user@contoso.com", type: "user" },
+  environmentName: "AzureCloud",
+  name: "Subscription",
+  id: "subscription-id",
+  authorizationSource: "RoleBased",
+  state: "Enabled"
+};
+
+function createAccessToken(resource: string, id: number): string {
+  return ["{}", JSON.stringify({ aud: resource, jti: `token${id}` }), ""]
+    .map((part) => Buffer.from(part).toString("base64"))
+    .join(".");
+}
+
+describe("AzureCliCredentials", () => {
+  const getAccessToken = AzureCliCredentials.getAccessToken;
+
+  afterEach(() => {
+    AzureCliCredentials.getAccessToken = getAccessToken;
+  });
+
+  it("should run a single az process for concurrent calls that need a new token", async () => {
+    const calls: string[] = [];
+    AzureCliCredentials.getAccessToken = async (options) => {
+      const id = calls.push(options!.resource!);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return {
+        accessToken: createAccessToken(options!.resource!, id),
+        expiresOn: new Date(Date.now() + 3600 * 1000),
+        subscription: "subscription-id",
+        tenant: "tenant-id",
+        tokenType: "Bearer"
+      };
+    };
+    const expiredToken: CliAccessToken = {
+      accessToken: createAccessToken("https://management.azure.com", 0),
+      expiresOn: new Date(Date.now() - 1000),
+      subscription: "subscription-id",
+      tenant: "tenant-id",
+      tokenType: "Bearer"
+    };
+    const creds = new AzureCliCredentials(subscription, expiredToken);
+
+    const tokenResponses = await Promise.all([
+      ...Array.from({ length: 20 }, () => creds.getToken()),
+      creds.getToken("https://vault.azure.net")
+    ]);
+
+    expect(calls).to.deep.equal(["https://management.azure.com", "https://vault.azure.net"]);
+    const firstToken = createAccessToken("https://management.azure.com", 1);
+    expect(tokenResponses.slice(0, 20).every((tokenResponse) => tokenResponse.accessToken === firstToken)).to.equal(true);
+    expect((await creds.getToken()).accessToken).to.equal(firstToken);
+    expect(calls.length).to.equal(2);
+  });
+
+  it("should not run the Azure CLI with a resource containing shell metacharacters", async () => {
+    const creds = new AzureCliCredentials(subscription, {
+      accessToken: createAccessToken("https://management.azure.com", 0),
+      expiresOn: new Date(Date.now() + 3600 * 1000),
+      subscription: "subscription-id",
+      tenant: "tenant-id",
+      tokenType: "Bearer"
+    });
+
+    for (const resource of ["https://vault.azure.net; rm -rf ~", "https://vault.azure.net/$(whoami)", "https://vault.azure.net\" & calc"]) {
+      let error: Error | undefined;
+      try {
+        await creds.getToken(resource);
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).to.be.an.instanceof(Error);
+      expect(error!.message).to.contain("must be an absolute http(s) URI");
+    }
+  });
+
+  it("should not run the Azure CLI in the Windows command shell with a subscription containing shell metacharacters", async () => {
+    const platform = Object.getOwnPropertyDescriptor(process, "platform")!;
+    Object.defineProperty(process, "platform", { value: "win32" });
+    try {
+      for (const subscriptionIdOrName of ["x\" & calc & \"", "%PATH%"]) {
+        const errors: Error[] = [];
+        await AzureCliCredentials.getSubscription(subscriptionIdOrName).catch((err) => errors.push(err));
+        await AzureCliCredentials.setDefaultSubscription(subscriptionIdOrName).catch((err) => errors.push(err));
+        await AzureCliCredentials.getAccessToken({ subscriptionIdOrName }).catch((err) => errors.push(err));
+
+        expect(errors.length).to.equal(3);
+        for (const error of errors) {
+          expect(error).to.be.an.instanceof(AzureCliError);
+          expect(error.message).to.contain("the Windows command shell would interpret");
+        }
+      }
+    } finally {
+      Object.defineProperty(process, "platform", platform);
+    }
+  });
+});
@@ -0,0 +1,116 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { ChainedTokenCredentials } from "../../lib/credentials/chainedTokenCredentials";
+import { TokenClientCredentials, TokenResponse } from "../../lib/credentials/tokenClientCredentials";
+import { AggregateAuthenticationError } from "../../lib/util/authErrors";
+import { expect, assert } from "chai";
+import { WebResource } from "@azure/ms-rest-js";
+
+describe("Chained Token Credentials", () => {
+
+  function getMockCredentials(accessToken?: string, error?: any): TokenClientCredentials & { calls: number } {
+    const credentials = {
+      calls: 0,
+      getToken: async (): Promise<TokenResponse> => {
+        credentials.calls++;
+        if (error !== undefined) {
+          throw error;
+        }
+        return { tokenType: "Bearer", accessToken: accessToken! };
+      },
+      signRequest: async (webResource: WebResource): Promise<WebResource> => webResource
+    };
+    return credentials;
+  }
+
+  it("should return the token from the first credential that succeeds", async () => {
+    const failing = getMockCredentials(undefined, new Error("not configured"));
+    const succeeding = getMockCredentials("token2");
+    const notReached = getMockCredentials("token3");
+
+    const chained = new ChainedTokenCredentials(failing, succeeding, notReached);
+    const response = await chained.getToken();
+
+    expect(response.accessToken).to.equal("token2");
+    expect(chained.selectedCredential).to.equal(succeeding);
+    expect(notReached.calls).to.equal(0);
+  });
+
+  it("should remember the credential that succeeded", async () => {
+    const failing = getMockCredentials(undefined, new Error("not configured"));
+    const succeeding = getMockCredentials("token2");
+
+    const chained = new ChainedTokenCredentials(failing, succeeding);
+    await chained.getToken();
+    await chained.getToken();
+
+    expect(failing.calls).to.equal(1);
+    expect(succeeding.calls).to.equal(2);
+  });
+
+  it("should try the chain once for concurrent calls", async () => {
+    const failing = getMockCredentials(undefined, new Error("not configured"));
+    const succeeding = getMockCredentials("token2");
+    let factoryCalls = 0;
+
+    const chained = new ChainedTokenCredentials(failing, async () => {
+      factoryCalls++;
+      return succeeding;
+    });
+    const responses = await Promise.all([chained.getToken(), chained.getToken(), chained.getToken()]);
+
+    expect(responses.map((response) => response.accessToken)).to.deep.equal(["token2", "token2", "token2"]);
+    expect(failing.calls).to.equal(1);
+    expect(factoryCalls).to.equal(1);
+    expect(succeeding.calls).to.equal(1);
+  });
+
+  it("should create credentials from factory functions", async () => {
+    const created = getMockCredentials("token1");
+    const chained = new ChainedTokenCredentials(async () => created);
+
+    const response = await chained.getToken();
+    expect(response.accessToken).to.equal("token1");
+    expect(chained.selectedCredential).to.equal(created);
+  });
+
+  it("should report why every credential failed", async () => {
+    const chained = new ChainedTokenCredentials(
+      function firstFactory(): TokenClientCredentials { throw new Error("missing variables"); },
+      getMockCredentials(undefined, { error: "invalid_client", errorDescription: "bad secret" }),
+      getMockCredentials(undefined, "plain string failure")
+    );
+
+    try {
+      await chained.getToken();
+      assert.fail(undefined, undefined, "getToken should throw an exception");
+    } catch (err) {
+      expect(err).to.be.an.instanceof(AggregateAuthenticationError);
+      expect(err.message).to.contain("firstFactory: missing variables");
+      expect(err.message).to.contain("bad secret");
+      expect(err.message).to.contain("plain string failure");
+      expect(err.failures).to.have.length(3);
+    }
+  });
+
+  it("should sign the request with the selected credential", async () => {
+    const chained = new ChainedTokenCredentials(getMockCredentials("token1"));
+    const webResource = await chained.signRequest(new WebResource());
+    expect(webResource.headers.get("authorization")).to.equal("Bearer token1");
+  });
+
+  it("should sign the request with the Bearer token type when ADFS returns it in lower case", async () => {
+    const adfs: TokenClientCredentials = {
+      getToken: async (): Promise<TokenResponse> => ({ tokenType: "bearer", accessToken: "token1" }),
+      signRequest: async (webResource: WebResource): Promise<WebResource> => webResource
+    };
+    const chained = new ChainedTokenCredentials(adfs);
+    const webResource = await chained.signRequest(new WebResource());
+    expect(webResource.headers.get("authorization")).to.equal("Bearer token1");
+  });
+
+  it("should throw when no credentials are provided", () => {
+    expect(() => new ChainedTokenCredentials()).to.throw("At least one credential must be provided.");
+  });
+});
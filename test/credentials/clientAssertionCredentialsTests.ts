@@ -0,0 +1,138 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import { WebResource } from "@azure/ms-rest-js";
+import { MemoryCache } from "adal-node";
+import { ClientAssertionCredentials } from "../../lib/credentials/clientAssertionCredentials";
+import { CredentialUnavailableError, InvalidCredentialsError } from "../../lib/util/authErrors";
+import { createHttpClient } from "../fakeHttpClient";
+
+function parseForm(body: string): { [key: string]: string } {
+  const result: { [key: string]: string } = {};
+  for (const pair of body.split("&")) {
+    const [key, value] = pair.split("=");
+    result[decodeURIComponent(key)] = decodeURIComponent(value);
+  }
+  return result;
+}
+
+describe("ClientAssertionCredentials", function () {
+  it("should exchange the assertion for a token and cache it", async () => {
+    const requests: WebResource[] = [];
+    const creds = new ClientAssertionCredentials("client-id", "tenant-id", "assertion", { httpClient: createHttpClient(requests) });
+
+    const first = await creds.getToken();
+    const second = await creds.getToken();
+
+    expect(first.accessToken).to.equal("token1");
+    expect(first.tokenType).to.equal("Bearer");
+    expect(first.expiresOn).to.be.instanceOf(Date);
+    expect(second.accessToken).to.equal(first.accessToken);
+    expect(requests.length).to.equal(1);
+    expect(requests[0].method).to.equal("POST");
+    expect(requests[0].url).to.equal("https://login.microsoftonline.com/tenant-id/oauth2/token");
+    expect(parseForm(requests[0].body)).to.deep.equal({
+      grant_type: "client_credentials",
+      client_id: "client-id",
+      client_assertion_type: "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      client_assertion: "assertion",
+      resource: "https://management.core.windows.net/"
+    });
+  });
+
+  it("should cache the tokens of each resource", async () => {
+    const requests: WebResource[] = [];
+    const creds = new ClientAssertionCredentials("client-id", "tenant-id", "assertion", { httpClient: createHttpClient(requests) });
+
+    await creds.getToken();
+    const vault = await creds.getTokenForResource("https://vault.azure.net");
+    const graph = await creds.getToken("graph");
+    await creds.getToken("https://vault.azure.net");
+
+    expect(vault.accessToken).to.equal("token2");
+    expect(graph.accessToken).to.equal("token3");
+    expect(requests.map((request) => parseForm(request.body).resource)).to.deep.equal([
+      "https://management.core.windows.net/",
+      "https://vault.azure.net",
+      "https://graph.windows.net/"
+    ]);
+  });
+
+  it("should store the tokens in the given token cache", async () => {
+    const requests: WebResource[] = [];
+    const tokenCache = new MemoryCache();
+    const options = { httpClient: createHttpClient(requests), tokenCache };
+
+    await new ClientAssertionCredentials("client-id", "tenant-id", "assertion", options).getToken();
+    const cachedToken = await new ClientAssertionCredentials("client-id", "tenant-id", "assertion", options).getToken();
+    await new ClientAssertionCredentials("client-id", "other-tenant-id", "assertion", options).getToken();
+
+    expect(cachedToken.accessToken).to.equal("token1");
+    expect(requests.map((request) => request.url)).to.deep.equal([
+      "https://login.microsoftonline.com/tenant-id/oauth2/token",
+      "https://login.microsoftonline.com/other-tenant-id/oauth2/token"
+    ]);
+  });
+
+  it("should read the assertion file again when a new token is needed", async () => {
+    const tokenFilePath = path.join(os.tmpdir(), `federated-token-${process.pid}`);
+    const requests: WebResource[] = [];
+    const expiringSoon = {
+      token_type: "Bearer",
+      expires_in: "60",
+      access_token: "token"
+    };
+    try {
+      fs.writeFileSync(tokenFilePath, "first\n");
+      const creds = ClientAssertionCredentials.fromFile("client-id", "tenant-id", tokenFilePath,
+        { httpClient: createHttpClient(requests, { body: expiringSoon }) });
+      await creds.getToken();
+      fs.writeFileSync(tokenFilePath, "second\n");
+      await creds.getToken();
+    } finally {
+      fs.unlinkSync(tokenFilePath);
+    }
+
+    expect(requests.map((request) => parseForm(request.body).client_assertion)).to.deep.equal(["first", "second"]);
+  });
+
+  it("should reject with an InvalidCredentialsError when the assertion is rejected", async () => {
+    const requests: WebResource[] = [];
+    const creds = new ClientAssertionCredentials("client-id", "tenant-id", async () => "assertion", {
+      httpClient: createHttpClient(requests, {
+        status: 400,
+        body: {
+          error: "invalid_client",
+          error_description: "AADSTS70021: No matching federated identity record found for presented assertion.",
+          correlation_id: "correlation-id"
+        }
+      })
+    });
+
+    try {
+      await creds.getToken();
+      throw new Error("getToken should have failed");
+    } catch (err) {
+      expect(err).to.be.instanceOf(InvalidCredentialsError);
+      expect(err.code).to.equal("invalid_client");
+      expect(err.statusCode).to.equal(400);
+      expect(err.correlationId).to.equal("correlation-id");
+    }
+  });
+
+  it("should reject with a CredentialUnavailableError when the assertion file is missing", async () => {
+    const creds = ClientAssertionCredentials.fromFile("client-id", "tenant-id", path.join(os.tmpdir(), "missing-federated-token"),
+      { httpClient: createHttpClient([]) });
+
+    try {
+      await creds.getToken();
+      throw new Error("getToken should have failed");
+    } catch (err) {
+      expect(err).to.be.instanceOf(CredentialUnavailableError);
+    }
+  });
+});
@@ -0,0 +1,95 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { EnvironmentCredentials } from "../../lib/credentials/environmentCredentials";
+import { ApplicationTokenCredentials } from "../../lib/credentials/applicationTokenCredentials";
+import { UserTokenCredentials } from "../../lib/credentials/userTokenCredentials";
+import { AuthConstants } from "../../lib/util/authConstants";
+import { expect } from "chai";
+
+describe("Environment Credentials", () => {
+  const variables = [
+    "AZURE_CLIENT_ID",
+    "AZURE_TENANT_ID",
+    "AZURE_CLIENT_SECRET",
+    "AZURE_CLIENT_CERTIFICATE_PATH",
+    "AZURE_USERNAME",
+    "AZURE_PASSWORD",
+    "AZURE_ENVIRONMENT"
+  ];
+  const originalValues: { [name: string]: string | undefined } = {};
+
+  beforeEach(() => {
+    for (const name of variables) {
+      originalValues[name] = process.env[name];
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    for (const name of variables) {
+      if (originalValues[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = originalValues[name];
+      }
+    }
+  });
+
+  it("should create ApplicationTokenCredentials when a client secret is set", () => {
+    process.env["AZURE_CLIENT_ID"] = "client";
+    process.env["AZURE_TENANT_ID"] = "tenant";
+    process.env["AZURE_CLIENT_SECRET"] = "secret";
+
+    const creds = new EnvironmentCredentials();
+    expect(creds.credentials).to.be.an.instanceof(ApplicationTokenCredentials);
+    expect(creds.credentials.clientId).to.equal("client");
+    expect(creds.credentials.domain).to.equal("tenant");
+    expect(creds.credentials.environment.name).to.equal("AzureCloud");
+  });
+
+  it("should create UserTokenCredentials when a username and password are set", () => {
+    process.env["AZURE_USERNAME"] = "user@example.com";
+    process.env["AZURE_PASSWORD"] = "password";
+
+    const creds = new EnvironmentCredentials();
+    expect(creds.credentials).to.be.an.instanceof(UserTokenCredentials);
+    expect(creds.credentials.clientId).to.equal(AuthConstants.DEFAULT_ADAL_CLIENT_ID);
+    expect(creds.credentials.domain).to.equal(AuthConstants.AAD_COMMON_TENANT);
+  });
+
+  it("should resolve the environment from AZURE_ENVIRONMENT", () => {
+    process.env["AZURE_CLIENT_ID"] = "client";
+    process.env["AZURE_TENANT_ID"] = "tenant";
+    process.env["AZURE_CLIENT_SECRET"] = "secret";
+    process.env["AZURE_ENVIRONMENT"] = "AzureChinaCloud";
+
+    const creds = new EnvironmentCredentials();
+    expect(creds.credentials.environment.name).to.equal("AzureChinaCloud");
+  });
+
+  it("should throw for an unknown environment name", () => {
+    process.env["AZURE_CLIENT_ID"] = "client";
+    process.env["AZURE_TENANT_ID"] = "tenant";
+    process.env["AZURE_CLIENT_SECRET"] = "secret";
+    process.env["AZURE_ENVIRONMENT"] = "NotACloud";
+
+    expect(() => new EnvironmentCredentials()).to.throw(/"NotACloud"/);
+  });
+
+  it("should list the missing service principal variables", () => {
+    process.env["AZURE_CLIENT_ID"] = "client";
+
+    expect(() => new EnvironmentCredentials()).to.throw(
+      "The following environment variables are missing: AZURE_TENANT_ID, AZURE_CLIENT_SECRET or AZURE_CLIENT_CERTIFICATE_PATH."
+    );
+  });
+
+  it("should list the missing user variables", () => {
+    process.env["AZURE_USERNAME"] = "user@example.com";
+
+    expect(() => new EnvironmentCredentials()).to.throw(
+      "The following environment variables are missing: AZURE_PASSWORD."
+    );
+  });
+});
@@ -71,6 +71,34 @@ describe("MSI App Service Authentication", function () {
       expect(response!.tokenType).to.exist;
     });
 
+    it("should send the secret in the identity header with the api-version 2019-08-01", async () => {
+      let sentRequest: WebResource | undefined;
+      const httpClient = {
+        sendRequest: async (request: WebResource): Promise<HttpOperationResponse> => {
+          sentRequest = request;
+          return {
+            request: request,
+            status: 200,
+            headers: new HttpHeaders(),
+            bodyAsText: JSON.stringify({ access_token: "token", expires_on: "1502930996", token_type: "Bearer" })
+          };
+        }
+      };
+
+      const msiCredsObj = new MSIAppServiceTokenCredentials({
+        msiEndpoint: "http://127.0.0.1:41741/msi/token",
+        msiSecret: "69418689F1E342DD946CB82994CDA3CB",
+        msiApiVersion: "2019-08-01",
+        clientId: "client-id",
+        httpClient: httpClient
+      });
+      await msiCredsObj.getToken();
+
+      expect(sentRequest!.headers.get("x-identity-header")).to.equal("69418689F1E342DD946CB82994CDA3CB");
+      expect(sentRequest!.headers.get("secret")).to.be.undefined;
+      expect(sentRequest!.url).to.contain("client_id=client-id");
+    });
+
     it('should throw if the response contains "ExceptionMessage"', async function () {
       const errorResponse = {
         "error": "unknown",
@@ -0,0 +1,82 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MSIArcTokenCredentials } from "../../lib/credentials/msiArcTokenCredentials";
+import { ManagedIdentityError } from "../../lib/util/authErrors";
+import { expect, assert } from "chai";
+import { WebResource, HttpHeaders, HttpClient, HttpOperationResponse } from "@azure/ms-rest-js";
+
+describe("MSI Azure Arc Authentication", function () {
+  let challengeFileDirectory: string;
+
+  beforeEach(() => {
+    challengeFileDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "msi-arc-"));
+  });
+
+  afterEach(() => {
+    for (const file of fs.readdirSync(challengeFileDirectory)) {
+      fs.unlinkSync(path.join(challengeFileDirectory, file));
+    }
+    fs.rmdirSync(challengeFileDirectory);
+  });
+
+  function getChallengeHttpClient(challengeFilePath: string): HttpClient & { requests: WebResource[] } {
+    const httpClient = {
+      requests: [] as WebResource[],
+      sendRequest: async (request: WebResource): Promise<HttpOperationResponse> => {
+        httpClient.requests.push(request);
+        if (!request.headers.get("authorization")) {
+          return {
+            request: request,
+            status: 401,
+            headers: new HttpHeaders({ "WWW-Authenticate": `Basic realm=${challengeFilePath}` }),
+            bodyAsText: ""
+          };
+        }
+        return {
+          request: request,
+          status: 200,
+          headers: new HttpHeaders(),
+          bodyAsText: JSON.stringify({ access_token: "token", expires_in: "3599", token_type: "Bearer" })
+        };
+      }
+    };
+    return httpClient;
+  }
+
+  it("should answer the challenge with the content of the challenge file", async () => {
+    const challengeFilePath = path.join(challengeFileDirectory, "challenge.key");
+    fs.writeFileSync(challengeFilePath, "secret-from-file");
+    const httpClient = getChallengeHttpClient(challengeFilePath);
+
+    const msiCredsObj = new MSIArcTokenCredentials({
+      msiEndpoint: "http://localhost:40342/metadata/identity/oauth2/token",
+      challengeFileDirectory,
+      httpClient
+    });
+    const response = await msiCredsObj.getToken();
+
+    expect(response.accessToken).to.equal("token");
+    expect(httpClient.requests).to.have.length(2);
+    expect(httpClient.requests[0].url).to.contain("api-version=2019-11-01");
+    expect(httpClient.requests[0].headers.get("metadata")).to.equal("true");
+    expect(httpClient.requests[1].headers.get("authorization")).to.equal("Basic secret-from-file");
+  });
+
+  it("should refuse to read a challenge file outside of the challenge file directory", async () => {
+    const httpClient = getChallengeHttpClient(path.join(os.tmpdir(), "elsewhere.key"));
+    const msiCredsObj = new MSIArcTokenCredentials({ msiEndpoint: "http://localhost:40342", challengeFileDirectory, httpClient });
+
+    try {
+      await msiCredsObj.getToken();
+      assert.fail(undefined, undefined, "getToken should throw an exception");
+    } catch (err) {
+      expect(err).to.be.an.instanceof(ManagedIdentityError);
+      expect(err.message).to.contain("is not a \".key\" file");
+      expect(httpClient.requests).to.have.length(1);
+    }
+  });
+});
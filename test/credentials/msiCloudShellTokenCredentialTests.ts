@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { MSICloudShellTokenCredentials } from "../../lib/credentials/msiCloudShellTokenCredentials";
+import { expect } from "chai";
+import { WebResource, HttpHeaders, HttpOperationResponse } from "@azure/ms-rest-js";
+
+describe("MSI Cloud Shell Authentication", function () {
+  it("should post the resource and client id to the Cloud Shell endpoint", async () => {
+    const requests: WebResource[] = [];
+    const httpClient = {
+      sendRequest: async (request: WebResource): Promise<HttpOperationResponse> => {
+        requests.push(request);
+        return {
+          request: request,
+          status: 200,
+          headers: new HttpHeaders(),
+          bodyAsText: JSON.stringify({ access_token: "token", expires_on: "1502930996", token_type: "Bearer" })
+        };
+      }
+    };
+
+    const msiCredsObj = new MSICloudShellTokenCredentials({
+      msiEndpoint: "http://localhost:50342/oauth2/token",
+      clientId: "client-id",
+      httpClient
+    });
+    const response = await msiCredsObj.getToken();
+
+    expect(response.accessToken).to.equal("token");
+    expect(requests[0].method).to.equal("POST");
+    expect(requests[0].headers.get("metadata")).to.equal("true");
+    expect(requests[0].body).to.equal("resource=https%3A%2F%2Fmanagement.azure.com%2F&client_id=client-id");
+  });
+});
@@ -0,0 +1,42 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { MSIServiceFabricTokenCredentials } from "../../lib/credentials/msiServiceFabricTokenCredentials";
+import { CredentialUnavailableError } from "../../lib/util/authErrors";
+import { expect } from "chai";
+import { WebResource, HttpHeaders, HttpOperationResponse } from "@azure/ms-rest-js";
+
+describe("MSI Service Fabric Authentication", function () {
+  it("should send the secret and pin the certificate of the token service", async () => {
+    const requests: WebResource[] = [];
+    const httpClient = {
+      sendRequest: async (request: WebResource): Promise<HttpOperationResponse> => {
+        requests.push(request);
+        return {
+          request: request,
+          status: 200,
+          headers: new HttpHeaders(),
+          bodyAsText: JSON.stringify({ access_token: "token", expires_on: "1502930996", token_type: "Bearer" })
+        };
+      }
+    };
+
+    const msiCredsObj = new MSIServiceFabricTokenCredentials({
+      msiEndpoint: "https://localhost:2377/metadata/identity/oauth2/token",
+      msiSecret: "secret",
+      serverThumbprint: "0123456789ABCDEF",
+      httpClient
+    });
+    const response = await msiCredsObj.getToken();
+
+    expect(response.accessToken).to.equal("token");
+    expect(requests[0].headers.get("secret")).to.equal("secret");
+    expect(requests[0].url).to.contain("api-version=2019-07-01-preview");
+    expect(requests[0].agentSettings).to.exist;
+  });
+
+  it("should be unavailable without the server thumbprint", () => {
+    expect(() => new MSIServiceFabricTokenCredentials({ msiEndpoint: "https://localhost:2377", msiSecret: "secret" }))
+      .to.throw(CredentialUnavailableError, "IDENTITY_SERVER_THUMBPRINT");
+  });
+});
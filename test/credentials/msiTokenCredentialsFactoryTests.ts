@@ -0,0 +1,123 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { createMSITokenCredentials, detectMSISource, getMSISourceFromEnvironment } from "../../lib/credentials/msiTokenCredentialsFactory";
+import { createAuthenticator } from "../../lib/credentials/keyVaultFactory";
+import { MSIArcTokenCredentials } from "../../lib/credentials/msiArcTokenCredentials";
+import { MSICloudShellTokenCredentials } from "../../lib/credentials/msiCloudShellTokenCredentials";
+import { MSIVmTokenCredentials } from "../../lib/credentials/msiVmTokenCredentials";
+import { CredentialUnavailableError } from "../../lib/util/authErrors";
+import { AuthLogEntry } from "../../lib/util/logger";
+import { expect, assert } from "chai";
+import { WebResource, HttpHeaders, HttpOperationResponse } from "@azure/ms-rest-js";
+
+describe("MSI source detection", () => {
+  const variables = ["IDENTITY_ENDPOINT", "IDENTITY_HEADER", "IDENTITY_SECRET", "IDENTITY_SERVER_THUMBPRINT", "IMDS_ENDPOINT", "MSI_ENDPOINT", "MSI_SECRET"];
+  let savedEnv: { [name: string]: string | undefined };
+
+  beforeEach(() => {
+    savedEnv = {};
+    for (const name of variables) {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    for (const name of variables) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = savedEnv[name];
+      }
+    }
+  });
+
+  it("should detect the hosting environment from the environment variables", () => {
+    expect(getMSISourceFromEnvironment()).to.be.undefined;
+
+    process.env["MSI_ENDPOINT"] = "http://localhost:50342/oauth2/token";
+    expect(getMSISourceFromEnvironment()).to.equal("CloudShell");
+
+    process.env["MSI_SECRET"] = "secret";
+    expect(getMSISourceFromEnvironment()).to.equal("AppService");
+
+    delete process.env["MSI_ENDPOINT"];
+    delete process.env["MSI_SECRET"];
+    process.env["IDENTITY_ENDPOINT"] = "https://localhost:2377/metadata/identity/oauth2/token";
+    process.env["IDENTITY_HEADER"] = "secret";
+    process.env["IDENTITY_SERVER_THUMBPRINT"] = "0123456789ABCDEF";
+    expect(getMSISourceFromEnvironment()).to.equal("ServiceFabric");
+
+    delete process.env["IDENTITY_SERVER_THUMBPRINT"];
+    expect(getMSISourceFromEnvironment()).to.equal("AppService");
+
+    process.env["IMDS_ENDPOINT"] = "http://localhost:40342";
+    expect(getMSISourceFromEnvironment()).to.equal("Arc");
+  });
+
+  it("should probe the virtual machine identity service when no environment variable is set", async () => {
+    const probes: WebResource[] = [];
+    const httpClient = {
+      sendRequest: async (request: WebResource): Promise<HttpOperationResponse> => {
+        probes.push(request);
+        return { request, status: 400, headers: new HttpHeaders(), bodyAsText: "" };
+      }
+    };
+
+    expect(await detectMSISource({ httpClient, imdsProbeTimeoutInMs: 200 })).to.equal("VM");
+    expect(probes[0].url).to.contain("169.254.169.254");
+    expect(probes[0].timeout).to.equal(200);
+  });
+
+  it("should be unavailable when the virtual machine identity service does not respond", async () => {
+    const httpClient = {
+      sendRequest: (): Promise<HttpOperationResponse> => Promise.reject(new Error("connect ETIMEDOUT"))
+    };
+
+    try {
+      await detectMSISource({ httpClient });
+      assert.fail(undefined, undefined, "detectMSISource should throw an exception");
+    } catch (err) {
+      expect(err).to.be.an.instanceof(CredentialUnavailableError);
+      expect(err.message).to.contain("ETIMEDOUT");
+    }
+  });
+
+  it("should create the credentials of the detected hosting environment", () => {
+    expect(createMSITokenCredentials()).to.be.an.instanceof(MSIVmTokenCredentials);
+
+    process.env["MSI_ENDPOINT"] = "http://localhost:50342/oauth2/token";
+    expect(createMSITokenCredentials({ clientId: "client-id" })).to.be.an.instanceof(MSICloudShellTokenCredentials);
+
+    process.env["IDENTITY_ENDPOINT"] = "http://localhost:40342/metadata/identity/oauth2/token";
+    expect(createMSITokenCredentials({}, "Arc")).to.be.an.instanceof(MSIArcTokenCredentials);
+  });
+
+  it("should create Key Vault authenticators from the detected credentials", async () => {
+    process.env["MSI_ENDPOINT"] = "http://localhost:50342/oauth2/token";
+    const requests: WebResource[] = [];
+    const httpClient = {
+      sendRequest: async (request: WebResource): Promise<HttpOperationResponse> => {
+        requests.push(request);
+        return {
+          request,
+          status: 200,
+          headers: new HttpHeaders(),
+          bodyAsText: JSON.stringify({ access_token: "token", expires_in: "3599", token_type: "Bearer" })
+        };
+      }
+    };
+
+    const events: string[] = [];
+    const logger = { level: "verbose" as "verbose", log: (entry: AuthLogEntry) => events.push(entry.event) };
+
+    const credentials = createMSITokenCredentials({ httpClient, logger, maxRetries: 0 });
+    expect(credentials.source).to.equal("CloudShell");
+    const authorization = await createAuthenticator(credentials)({ resource: "https://vault.azure.net", authorization: "" });
+    expect(authorization).to.equal("Bearer token");
+    expect(requests[0].body).to.contain("resource=https%3A%2F%2Fvault.azure.net");
+    expect(credentials.resource).to.equal("https://management.azure.com/");
+    expect(events).to.contain("token.network");
+  });
+});
@@ -1,7 +1,9 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License. See License.txt in the project root for license information.
 
+import { MSITokenCredentials, MSITokenResponse } from "../../lib/credentials/msiTokenCredentials";
 import { MSIVmTokenCredentials } from "../../lib/credentials/msiVmTokenCredentials";
+import { ManagedIdentityError } from "../../lib/util/authErrors";
 import { expect, assert } from "chai";
 import { HttpClient, HttpOperationResponse, WebResource, HttpHeaders } from "@azure/ms-rest-js";
 
@@ -104,9 +106,11 @@ describe("MSI Vm Authentication", () => {
       await msiCredsObj.getToken();
       assert.fail(undefined, undefined, "getToken should throw an exception");
     } catch (err) {
-      expect(err).to.exist;
+      expect(err).to.be.an.instanceof(ManagedIdentityError);
+      expect(err.message).to.contain(errorDescription);
       expect((err as any).error).to.equal(errorMessage);
       expect((err as any).error_description).to.equal(errorDescription);
+      expect((err as ManagedIdentityError).errorDescription).to.equal(errorDescription);
     }
   });
 
@@ -129,9 +133,11 @@ describe("MSI Vm Authentication", () => {
       await msiCredsObj.getToken();
       assert.fail(undefined, undefined, "getToken should throw an exception");
     } catch (err) {
-      expect(err).to.exist;
+      expect(err).to.be.an.instanceof(ManagedIdentityError);
+      expect(err.message).to.contain(errorDescription);
       expect((err as any).error).to.equal(errorMessage);
       expect((err as any).error_description).to.equal(errorDescription);
+      expect((err as ManagedIdentityError).errorDescription).to.equal(errorDescription);
     }
   });
 
@@ -191,4 +197,219 @@ describe("MSI Vm Authentication", () => {
     expect(msiCredsObj.objectId).to.equal("201_101");
     expect(msiCredsObj.clientId).to.equal("201");
   });
+
+  describe("token caching", () => {
+    function getCountingHttpClient(expiresInSeconds: number[]): HttpClient & { requests: number } {
+      const httpClient = {
+        requests: 0,
+        sendRequest: async (req: WebResource): Promise<HttpOperationResponse> => {
+          const index = Math.min(httpClient.requests, expiresInSeconds.length - 1);
+          httpClient.requests++;
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return {
+            request: req,
+            status: 200,
+            headers: new HttpHeaders(),
+            bodyAsText: JSON.stringify({
+              access_token: `token${httpClient.requests}`,
+              expires_on: `${Math.floor(Date.now() / 1000) + expiresInSeconds[index]}`,
+              resource: "https://management.azure.com/",
+              token_type: "Bearer"
+            })
+          };
+        }
+      };
+      return httpClient;
+    }
+
+    it("should parse expires_on as seconds since the epoch", async () => {
+      const httpClient = getCountingHttpClient([3600]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient });
+      const response = await msiCredsObj.getToken();
+      expect(response.expiresOn).to.be.an.instanceof(Date);
+      expect(response.expiresOn.getTime()).to.be.greaterThan(Date.now());
+    });
+
+    it("should return the cached token until the refresh margin", async () => {
+      const httpClient = getCountingHttpClient([3600]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient });
+      const first = await msiCredsObj.getToken();
+      const second = await msiCredsObj.getToken();
+      expect(second.accessToken).to.equal(first.accessToken);
+      expect(httpClient.requests).to.equal(1);
+    });
+
+    it("should send a single request for concurrent calls", async () => {
+      const httpClient = getCountingHttpClient([3600]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient });
+      const responses = await Promise.all([msiCredsObj.getToken(), msiCredsObj.getToken(), msiCredsObj.getToken()]);
+      expect(responses.map((response) => response.accessToken)).to.deep.equal(["token1", "token1", "token1"]);
+      expect(httpClient.requests).to.equal(1);
+    });
+
+    it("should return the cached token while refreshing it in the background within the refresh margin", async () => {
+      const httpClient = getCountingHttpClient([120, 3600]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient, tokenRefreshMarginInSeconds: 300 });
+      await msiCredsObj.getToken();
+
+      const duringRefresh = await msiCredsObj.getToken();
+      expect(duringRefresh.accessToken).to.equal("token1");
+      expect(httpClient.requests).to.equal(2);
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const afterRefresh = await msiCredsObj.getToken();
+      expect(afterRefresh.accessToken).to.equal("token2");
+      expect(httpClient.requests).to.equal(2);
+    });
+
+    it("should wait for a new token when the cached token is about to expire", async () => {
+      const httpClient = getCountingHttpClient([10, 3600]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient });
+      await msiCredsObj.getToken();
+      const response = await msiCredsObj.getToken();
+      expect(response.accessToken).to.equal("token2");
+    });
+
+    it("should acquire a new token when the resource changes", async () => {
+      const httpClient = getCountingHttpClient([3600]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient });
+      await msiCredsObj.getToken();
+      msiCredsObj.resource = "https://vault.azure.net";
+      const response = await msiCredsObj.getToken();
+      expect(response.accessToken).to.equal("token2");
+    });
+
+    it("should cache the tokens of each resource", async () => {
+      const httpClient = getCountingHttpClient([3600]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient });
+      const management = await msiCredsObj.getToken();
+      const vault = await msiCredsObj.getTokenForResource("https://vault.azure.net");
+      expect(vault.accessToken).to.equal("token2");
+      expect((await msiCredsObj.getToken()).accessToken).to.equal(management.accessToken);
+      expect((await msiCredsObj.getToken("https://vault.azure.net")).accessToken).to.equal("token2");
+      expect(httpClient.requests).to.equal(2);
+    });
+
+    it("should sign requests with the token of the resource mapped to the host", async () => {
+      const resources: string[] = [];
+      const httpClient = getCountingHttpClient([3600]);
+      const sendRequest = httpClient.sendRequest;
+      httpClient.sendRequest = (req: WebResource) => {
+        resources.push(decodeURIComponent(req.url.match(/[?&]resource=([^&]*)/)![1]));
+        return sendRequest(req);
+      };
+      const msiCredsObj = new MSIVmTokenCredentials({
+        httpClient: httpClient,
+        hostToResourceMap: { ".vault.azure.net": "https://vault.azure.net" }
+      });
+      await msiCredsObj.signRequest(new WebResource("https://myvault.vault.azure.net/secrets/secret"));
+      await msiCredsObj.signRequest(new WebResource("https://management.azure.com/subscriptions"));
+      expect(resources).to.deep.equal(["https://vault.azure.net", "https://management.azure.com/"]);
+    });
+  });
+
+  describe("retries", () => {
+    function getSequenceHttpClient(responses: { status: number, headers?: { [name: string]: string } }[]): HttpClient & { requests: number } {
+      const httpClient = {
+        requests: 0,
+        sendRequest: async (req: WebResource): Promise<HttpOperationResponse> => {
+          const response = responses[Math.min(httpClient.requests, responses.length - 1)];
+          httpClient.requests++;
+          const body = response.status === 200
+            ? { access_token: "token", expires_in: "3599", token_type: "Bearer" }
+            : { error: "error", error_description: `status ${response.status}` };
+          return {
+            request: req,
+            status: response.status,
+            headers: new HttpHeaders(response.headers),
+            bodyAsText: JSON.stringify(body)
+          };
+        }
+      };
+      return httpClient;
+    }
+
+    it("should retry on throttling and transient errors", async () => {
+      const httpClient = getSequenceHttpClient([{ status: 429 }, { status: 410 }, { status: 503 }, { status: 200 }]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient, retryDelayInMs: 1 });
+      const response = await msiCredsObj.getToken();
+      expect(response.accessToken).to.equal("token");
+      expect(httpClient.requests).to.equal(4);
+    });
+
+    it("should honor the Retry-After header", async () => {
+      const httpClient = getSequenceHttpClient([{ status: 429, headers: { "Retry-After": "0.05" } }, { status: 200 }]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient, retryDelayInMs: 10000 });
+      const start = Date.now();
+      await msiCredsObj.getToken();
+      expect(Date.now() - start).to.be.lessThan(5000);
+      expect(httpClient.requests).to.equal(2);
+    });
+
+    it("should retry immediately when the Retry-After header is 0", async () => {
+      const httpClient = getSequenceHttpClient([{ status: 429, headers: { "Retry-After": "0" } }, { status: 200 }]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient, retryDelayInMs: 10000, maxTotalRetryDelayInMs: 1000 });
+      const response = await msiCredsObj.getToken();
+      expect(response.accessToken).to.equal("token");
+      expect(httpClient.requests).to.equal(2);
+    });
+
+    it("should surface the final status and body after the maximum number of retries", async () => {
+      const httpClient = getSequenceHttpClient([{ status: 500 }]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient, retryDelayInMs: 1, maxRetries: 2 });
+      try {
+        await msiCredsObj.getToken();
+        assert.fail(undefined, undefined, "getToken should throw an exception");
+      } catch (err) {
+        expect(err).to.be.an.instanceof(ManagedIdentityError);
+        expect(err.statusCode).to.equal(500);
+        expect(err.body).to.contain("status 500");
+        expect(err.error).to.equal("error");
+        expect(err.errorDescription).to.equal("status 500");
+        expect(httpClient.requests).to.equal(3);
+      }
+    });
+
+    it("should not retry on other client errors", async () => {
+      const httpClient = getSequenceHttpClient([{ status: 400 }, { status: 200 }]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient, retryDelayInMs: 1 });
+      try {
+        await msiCredsObj.getToken();
+        assert.fail(undefined, undefined, "getToken should throw an exception");
+      } catch (err) {
+        expect(err).to.be.an.instanceof(ManagedIdentityError);
+        expect(err.statusCode).to.equal(400);
+        expect(httpClient.requests).to.equal(1);
+      }
+    });
+
+    it("should stop retrying when the maximum total delay is reached", async () => {
+      const httpClient = getSequenceHttpClient([{ status: 429, headers: { "Retry-After": "60" } }, { status: 200 }]);
+      const msiCredsObj = new MSIVmTokenCredentials({ httpClient: httpClient, maxTotalRetryDelayInMs: 1000 });
+      try {
+        await msiCredsObj.getToken();
+        assert.fail(undefined, undefined, "getToken should throw an exception");
+      } catch (err) {
+        expect(err).to.be.an.instanceof(ManagedIdentityError);
+        expect(err.statusCode).to.equal(429);
+        expect(httpClient.requests).to.equal(1);
+      }
+    });
+  });
+
+  it("should keep supporting the subclasses that override getToken()", async () => {
+    class LegacyMSITokenCredentials extends MSITokenCredentials {
+      async getToken(): Promise<MSITokenResponse> {
+        return { tokenType: "Bearer", accessToken: "legacy-token" };
+      }
+
+      protected prepareRequestOptions(): WebResource {
+        return new WebResource("http://localhost/token", "GET");
+      }
+    }
+
+    const webResource = await new LegacyMSITokenCredentials({}).signRequest(new WebResource("https://management.azure.com/subscriptions"));
+
+    expect(webResource.headers.get("authorization")).to.equal("Bearer legacy-token");
+  });
 });
@@ -0,0 +1,104 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { expect } from "chai";
+import { WebResource } from "@azure/ms-rest-js";
+import { AccessToken, TokenCredential } from "@azure/core-auth";
+import { AbortController } from "@azure/abort-controller";
+import { TokenCredentialAdapter } from "../../lib/credentials/tokenCredentialAdapter";
+import { CoreAuthTokenCredentials } from "../../lib/credentials/coreAuthTokenCredentials";
+import { TokenClientCredentials, TokenResponse } from "../../lib/credentials/tokenClientCredentials";
+import { CredentialUnavailableError } from "../../lib/util/authErrors";
+
+function createCredentials(resources: (string | undefined)[], delayInMs = 0): TokenClientCredentials {
+  return {
+    getToken: async (resource?: string): Promise<TokenResponse> => {
+      resources.push(resource);
+      await new Promise((resolve) => setTimeout(resolve, delayInMs));
+      return { tokenType: "Bearer", accessToken: `token for ${resource}`, expiresOn: new Date(1600000000000) };
+    },
+    signRequest: async (webResource: WebResource) => webResource
+  };
+}
+
+describe("TokenCredentialAdapter", () => {
+  it("should get the token for the resource of the .default scope", async () => {
+    const resources: (string | undefined)[] = [];
+    const adapter = new TokenCredentialAdapter(createCredentials(resources));
+
+    const accessToken = await adapter.getToken("https://vault.azure.net/.default");
+
+    expect(resources).to.deep.equal(["https://vault.azure.net"]);
+    expect(accessToken).to.deep.equal({ token: "token for https://vault.azure.net", expiresOnTimestamp: 1600000000000 });
+  });
+
+  it("should reject scopes of different resources", async () => {
+    const adapter = new TokenCredentialAdapter(createCredentials([]));
+    try {
+      await adapter.getToken(["https://vault.azure.net/.default", "https://storage.azure.com/.default"]);
+      throw new Error("getToken should have failed");
+    } catch (err) {
+      expect(err.message).to.contain("single resource");
+    }
+  });
+
+  it("should reject with an AbortError when the request is aborted", async () => {
+    const adapter = new TokenCredentialAdapter(createCredentials([], 50));
+    const controller = new AbortController();
+    const promise = adapter.getToken("https://management.azure.com/.default", { abortSignal: controller.signal });
+    controller.abort();
+    try {
+      await promise;
+      throw new Error("getToken should have failed");
+    } catch (err) {
+      expect(err.name).to.equal("AbortError");
+    }
+  });
+});
+
+describe("CoreAuthTokenCredentials", () => {
+  function createTokenCredential(scopes: (string | string[])[], accessToken: AccessToken | null): TokenCredential {
+    return {
+      getToken: async (scope: string | string[]) => {
+        scopes.push(scope);
+        return accessToken;
+      }
+    };
+  }
+
+  it("should request the .default scope of the resource", async () => {
+    const scopes: (string | string[])[] = [];
+    const creds = new CoreAuthTokenCredentials(createTokenCredential(scopes, { token: "token", expiresOnTimestamp: 1600000000000 }));
+
+    const tokenResponse = await creds.getToken();
+    await creds.getTokenForResource("https://vault.azure.net");
+
+    expect(scopes).to.deep.equal(["https://management.azure.com/.default", "https://vault.azure.net/.default"]);
+    expect(tokenResponse.tokenType).to.equal("Bearer");
+    expect(tokenResponse.accessToken).to.equal("token");
+    expect(tokenResponse.expiresOn.getTime()).to.equal(1600000000000);
+  });
+
+  it("should sign requests with a token for the resource mapped to the host", async () => {
+    const scopes: (string | string[])[] = [];
+    const creds = new CoreAuthTokenCredentials(createTokenCredential(scopes, { token: "token", expiresOnTimestamp: 1600000000000 }),
+      { hostToResourceMap: { ".vault.azure.net": "https://vault.azure.net" } });
+
+    const webResource = await creds.signRequest(new WebResource("https://myvault.vault.azure.net/secrets/secret"));
+
+    expect(webResource.headers.get("authorization")).to.equal("Bearer token");
+    expect(scopes).to.deep.equal(["https://vault.azure.net/.default"]);
+  });
+
+  it("should reject with a CredentialUnavailableError when no token is returned", async () => {
+    // A TokenCredential resolves with null when it cannot provide a token.
+    // tslint:disable-next-line: no-null-keyword
+    const creds = new CoreAuthTokenCredentials(createTokenCredential([], null));
+    try {
+      await creds.getToken();
+      throw new Error("getToken should have failed");
+    } catch (err) {
+      expect(err).to.be.instanceOf(CredentialUnavailableError);
+    }
+  });
+});
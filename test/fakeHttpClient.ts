@@ -0,0 +1,42 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { HttpClient, HttpHeaders, HttpOperationResponse, WebResource } from "@azure/ms-rest-js";
+
+/**
+ * Describes the responses of the HttpClient created by {@link createHttpClient}.
+ */
+export interface FakeHttpClientOptions {
+  /**
+   * The status code of every response. Default value is 200.
+   */
+  status?: number;
+  /**
+   * The JSON body of every response. Default value is a token response whose access token is "token<n>" for the n-th request.
+   */
+  body?: any;
+}
+
+/**
+ * Creates an HttpClient that records the requests it receives and answers all of them with the same response.
+ *
+ * @param requests - Receives the requests sent with the client.
+ * @param options - The responses of the client.
+ */
+export function createHttpClient(requests: WebResource[] = [], options: FakeHttpClientOptions = {}): HttpClient {
+  return {
+    sendRequest: async (request: WebResource): Promise<HttpOperationResponse> => {
+      requests.push(request);
+      return {
+        request: request,
+        status: options.status || 200,
+        headers: new HttpHeaders(),
+        bodyAsText: JSON.stringify(options.body !== undefined ? options.body : {
+          token_type: "Bearer",
+          expires_in: "3599",
+          access_token: `token${requests.length}`
+        })
+      };
+    }
+  };
+}
@@ -0,0 +1,179 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { expect } from "chai";
+import * as os from "os";
+import * as path from "path";
+import { mkdtempSync, writeFileSync } from "fs";
+import { AuthenticationContext, TokenResponse, UserCodeInfo } from "adal-node";
+import { AbortController } from "@azure/abort-controller";
+import {
+  DeviceCodeInfo,
+  withAuthFileWithAuthResponse,
+  withInteractiveWithAuthResponse,
+  withServicePrincipalSecretWithAuthResponse,
+  withUsernamePasswordWithAuthResponse
+} from "../lib/login";
+import { FileTokenCache } from "../lib/tokenCache/fileTokenCache";
+import { CredentialUnavailableError } from "../lib/util/authErrors";
+
+const userCodeInfo: UserCodeInfo = {
+  deviceCode: "device-code",
+  userCode: "ABCD-EFGH",
+  verificationUrl: "https://microsoft.com/devicelogin",
+  expiresIn: 900,
+  interval: 1,
+  message: "To sign in, use a web browser to open the page https://microsoft.com/devicelogin and enter the code ABCD-EFGH to authenticate."
+};
+
+describe("Interactive login", () => {
+  const prototype = AuthenticationContext.prototype;
+  const { acquireUserCode, acquireTokenWithDeviceCode, cancelRequestToGetTokenWithDeviceCode } = prototype;
+  let userCodeRequests: number;
+  let pollingRequests: number;
+  let cancelledDeviceCodes: string[];
+
+  beforeEach(() => {
+    userCodeRequests = 0;
+    pollingRequests = 0;
+    cancelledDeviceCodes = [];
+    prototype.acquireUserCode = function (_resource, _clientId, _language, callback) {
+      userCodeRequests++;
+      setImmediate(() => callback(undefined as any, userCodeInfo));
+    };
+    // Never completes, like adal polling Azure Active Directory until the user enters the code.
+    prototype.acquireTokenWithDeviceCode = function () {
+      pollingRequests++;
+    };
+    prototype.cancelRequestToGetTokenWithDeviceCode = function (info) {
+      cancelledDeviceCodes.push(info.deviceCode);
+    };
+  });
+
+  afterEach(() => {
+    prototype.acquireUserCode = acquireUserCode;
+    prototype.acquireTokenWithDeviceCode = acquireTokenWithDeviceCode;
+    prototype.cancelRequestToGetTokenWithDeviceCode = cancelRequestToGetTokenWithDeviceCode;
+  });
+
+  it("should give the device code to onDeviceCode and cancel the polling once aborted", async () => {
+    const controller = new AbortController();
+    const deviceCodes: DeviceCodeInfo[] = [];
+
+    let error: Error | undefined;
+    try {
+      await withInteractiveWithAuthResponse({
+        abortSignal: controller.signal,
+        onDeviceCode: (deviceCode) => {
+          deviceCodes.push(deviceCode);
+          setTimeout(() => controller.abort(), 10);
+        }
+      });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error!.name).to.equal("AbortError");
+    expect(deviceCodes).to.deep.equal([{
+      userCode: userCodeInfo.userCode,
+      verificationUrl: userCodeInfo.verificationUrl,
+      expiresIn: userCodeInfo.expiresIn,
+      message: userCodeInfo.message
+    }]);
+    expect(pollingRequests).to.equal(1);
+    expect(cancelledDeviceCodes).to.deep.equal(["device-code"]);
+  });
+
+  it("should reject without requesting a device code when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    let error: Error | undefined;
+    try {
+      await withInteractiveWithAuthResponse({ abortSignal: controller.signal, onDeviceCode: () => undefined });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error!.name).to.equal("AbortError");
+    expect(userCodeRequests).to.equal(0);
+  });
+
+  it("should reject with a CredentialUnavailableError when the user does not enter the code in time", async () => {
+    let error: Error | undefined;
+    try {
+      await withInteractiveWithAuthResponse({ timeoutInMs: 50, onDeviceCode: () => undefined });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).to.be.an.instanceof(CredentialUnavailableError);
+    expect(error!.message).to.contain("50 milliseconds");
+    expect(cancelledDeviceCodes).to.deep.equal(["device-code"]);
+  });
+});
+
+describe("Login token cache", () => {
+  const prototype = AuthenticationContext.prototype;
+  const { acquireToken, acquireTokenWithClientCredentials, acquireTokenWithUsernamePassword } = prototype;
+
+  // Adds the token to the cache of the context, like adal does.
+  function addToCache(context: AuthenticationContext, resource: string, userId: string | undefined, callback: (error: Error, response: TokenResponse) => void) {
+    const tokenResponse: TokenResponse = { tokenType: "Bearer", accessToken: "token", expiresIn: 3599, expiresOn: new Date(), resource, userId };
+    context.cache.add([{ ...tokenResponse, _clientId: "client-id", _authority: context.authority } as any], () => callback(undefined as any, tokenResponse));
+  }
+
+  beforeEach(() => {
+    prototype.acquireToken = function (_resource, _userId, _clientId, callback) {
+      setImmediate(() => callback(new Error("Entry not found in cache."), { error: "cache_miss", errorDescription: "Entry not found in cache." } as any));
+    };
+    prototype.acquireTokenWithClientCredentials = function (this: AuthenticationContext, resource, _clientId, _secret, callback) {
+      addToCache(this, resource, undefined, callback);
+    };
+    prototype.acquireTokenWithUsernamePassword = function (this: AuthenticationContext, resource, username, _password, _clientId, callback) {
+      addToCache(this, resource, username, callback);
+    };
+  });
+
+  afterEach(() => {
+    prototype.acquireToken = acquireToken;
+    prototype.acquireTokenWithClientCredentials = acquireTokenWithClientCredentials;
+    prototype.acquireTokenWithUsernamePassword = acquireTokenWithUsernamePassword;
+  });
+
+  it("should store the tokens of the service principal and username/password logins in the given cache", async () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), "login-"));
+    const servicePrincipalCache = new FileTokenCache(path.join(directory, "servicePrincipal.json"));
+    const userCache = new FileTokenCache(path.join(directory, "user.json"));
+
+    await withServicePrincipalSecretWithAuthResponse("client-id", "secret", "tenant-id", { tokenCache: servicePrincipalCache, skipSubscriptionDiscovery: true });
+    await withUsernamePasswordWithAuthResponse("user@contoso.com", "password", {
+      clientId: "client-id",
+      domain: "tenant-id",
+      tokenCache: userCache,
+      skipSubscriptionDiscovery: true
+    });
+
+    for (const cache of [servicePrincipalCache, userCache]) {
+      const entries = await new Promise<any[]>((resolve, reject) => cache.find({ _clientId: "client-id" }, (err, results) => err ? reject(err) : resolve(results)));
+      expect(entries.map((entry) => entry.accessToken)).to.deep.equal(["token"]);
+    }
+  });
+});
+
+describe("Auth file login", () => {
+  it("should reject the profiles that are not service principals", async () => {
+    const filePath = path.join(mkdtempSync(path.join(os.tmpdir(), "auth-file-")), "auth.json");
+    writeFileSync(filePath, JSON.stringify({ profiles: { dev: { type: "azureCli" } } }));
+
+    let error: Error | undefined;
+    try {
+      await withAuthFileWithAuthResponse({ filePath, skipSubscriptionEnvVariable: true });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).to.be.an.instanceof(CredentialUnavailableError);
+    expect(error!.message).to.contain("loginWithAuthFileProfile()");
+  });
+});
@@ -0,0 +1,208 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { expect } from "chai";
+import { AuthenticationContext } from "adal-node";
+import { DefaultHttpClient, HttpHeaders, HttpOperationResponse, WebResource } from "@azure/ms-rest-js";
+import { ApplicationTokenCredentials } from "../../lib/credentials/applicationTokenCredentials";
+import { withServicePrincipalSecretWithAuthResponse } from "../../lib/login";
+import { buildTenantList, discoverSubscriptions, getSubscriptionsFromTenants, listTenants } from "../../lib/subscriptionManagement/subscriptionUtils";
+import { AuthenticationError, ResourceManagerError } from "../../lib/util/authErrors";
+
+const pages: { [url: string]: any } = {
+  "https://management.azure.com/subscriptions?api-version=2016-06-01 tenant-a": {
+    value: [{ subscriptionId: "sub-1", displayName: "prod-web", state: "Enabled" }],
+    nextLink: "https://management.azure.com/subscriptions?api-version=2016-06-01&$skiptoken=2"
+  },
+  "https://management.azure.com/subscriptions?api-version=2016-06-01&$skiptoken=2 tenant-a": {
+    value: [{ subscriptionId: "sub-2", displayName: "prod-data", state: "Disabled" }, { subscriptionId: "sub-3", displayName: "dev", state: "Enabled" }]
+  },
+  "https://management.azure.com/subscriptions?api-version=2016-06-01 tenant-b": {
+    value: [{ subscriptionId: "sub-4", displayName: "Prod-Shared", state: "Enabled" }]
+  },
+  "https://management.azure.com/tenants?api-version=2020-01-01 common": {
+    value: [{
+      id: "/tenants/tenant-a",
+      tenantId: "tenant-a",
+      tenantCategory: "Home",
+      countryCode: "US",
+      displayName: "Contoso",
+      domains: ["contoso.onmicrosoft.com", "contoso.com"],
+      defaultDomain: "contoso.com"
+    }],
+    nextLink: "https://management.azure.com/tenants?api-version=2020-01-01&$skiptoken=2"
+  },
+  "https://management.azure.com/tenants?api-version=2020-01-01&$skiptoken=2 common": {
+    value: [{ id: "/tenants/tenant-b", tenantId: "tenant-b", tenantCategory: "ProjectedBy", displayName: "Fabrikam" }]
+  }
+};
+
+describe("Subscription discovery", () => {
+  const prototype = AuthenticationContext.prototype;
+  const { acquireToken, acquireTokenWithClientCredentials } = prototype;
+  const sendRequest = DefaultHttpClient.prototype.sendRequest;
+  let pendingRequests: number;
+  let maxPendingRequests: number;
+
+  beforeEach(() => {
+    pendingRequests = 0;
+    maxPendingRequests = 0;
+    prototype.acquireToken = function (_resource, _userId, _clientId, callback) {
+      setImmediate(() => callback(new Error("Entry not found in cache."), { error: "cache_miss", errorDescription: "Entry not found in cache." } as any));
+    };
+    prototype.acquireTokenWithClientCredentials = function (this: AuthenticationContext, resource, _clientId, _secret, callback) {
+      const tenant = this.authority.split("/").pop();
+      setImmediate(() => callback(undefined as any, { tokenType: "Bearer", accessToken: tenant!, expiresIn: 3599, expiresOn: new Date(), resource }));
+    };
+    DefaultHttpClient.prototype.sendRequest = async function (request: WebResource): Promise<HttpOperationResponse> {
+      pendingRequests++;
+      maxPendingRequests = Math.max(maxPendingRequests, pendingRequests);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      pendingRequests--;
+      const tenant = request.headers.get("authorization")!.split(" ")[1];
+      const body = pages[`${request.url} ${tenant}`];
+      return body
+        ? { request, status: 200, headers: new HttpHeaders(), bodyAsText: JSON.stringify(body) }
+        : { request, status: 401, headers: new HttpHeaders(), bodyAsText: JSON.stringify({ error: { code: "InvalidAuthenticationToken", message: "MFA required" } }) };
+    };
+  });
+
+  afterEach(() => {
+    prototype.acquireToken = acquireToken;
+    prototype.acquireTokenWithClientCredentials = acquireTokenWithClientCredentials;
+    DefaultHttpClient.prototype.sendRequest = sendRequest;
+  });
+
+  it("should list every page of every tenant in parallel without changing the domain of the credentials", async () => {
+    const creds = new ApplicationTokenCredentials("client-id", "common", "secret");
+
+    const result = await getSubscriptionsFromTenants(creds, ["tenant-a", "tenant-b", "tenant-c"]);
+
+    expect(result.subscriptions.map((s) => [s.tenantId, s.id, s.name])).to.deep.equal([
+      ["tenant-a", "sub-1", "prod-web"],
+      ["tenant-a", "sub-2", "prod-data"],
+      ["tenant-a", "sub-3", "dev"],
+      ["tenant-b", "sub-4", "Prod-Shared"]
+    ]);
+    expect(result.failedTenants.map((failure) => failure.tenantId)).to.deep.equal(["tenant-c"]);
+    expect(result.failedTenants[0].error).to.be.an.instanceof(AuthenticationError);
+    expect((result.failedTenants[0].error as AuthenticationError).statusCode).to.equal(401);
+    expect(maxPendingRequests).to.equal(3);
+    expect(creds.domain).to.equal("common");
+  });
+
+  it("should filter the tenants and the subscriptions, and limit the tenants queried in parallel", async () => {
+    const creds = new ApplicationTokenCredentials("client-id", "common", "secret");
+
+    const result = await getSubscriptionsFromTenants(creds, ["tenant-a", "tenant-b", "tenant-c"], undefined, {
+      tenantIds: ["TENANT-A", "tenant-b"],
+      states: ["enabled"],
+      namePattern: "prod-*",
+      maxConcurrency: 1
+    });
+
+    expect(result.subscriptions.map((s) => s.id)).to.deep.equal(["sub-1", "sub-4"]);
+    expect(result.failedTenants).to.deep.equal([]);
+    expect(maxPendingRequests).to.equal(1);
+  });
+
+  it("should query the tenants one at a time when maxConcurrency is below 1", async () => {
+    const creds = new ApplicationTokenCredentials("client-id", "common", "secret");
+
+    const result = await getSubscriptionsFromTenants(creds, ["tenant-a", "tenant-b"], undefined, { maxConcurrency: 0.5 });
+
+    expect(result.subscriptions.map((s) => s.id)).to.deep.equal(["sub-1", "sub-2", "sub-3", "sub-4"]);
+    expect(maxPendingRequests).to.equal(1);
+  });
+
+  it("should query the tenants one at a time when maxConcurrency is 0 or NaN", async () => {
+    const creds = new ApplicationTokenCredentials("client-id", "common", "secret");
+
+    for (const maxConcurrency of [0, NaN]) {
+      const result = await getSubscriptionsFromTenants(creds, ["tenant-a", "tenant-b"], undefined, { maxConcurrency });
+
+      expect(result.subscriptions.map((s) => s.id)).to.deep.equal(["sub-1", "sub-2", "sub-3", "sub-4"]);
+    }
+    expect(maxPendingRequests).to.equal(1);
+  });
+
+  it("should reject when no tenant could be listed", async () => {
+    const creds = new ApplicationTokenCredentials("client-id", "tenant-c", "secret");
+
+    let error: Error | undefined;
+    try {
+      await getSubscriptionsFromTenants(creds, ["tenant-c"]);
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).to.be.an.instanceof(AuthenticationError);
+    expect(error!.message).to.contain("MFA required");
+    expect((error as AuthenticationError).code).to.equal("InvalidAuthenticationToken");
+  });
+
+  it("should list every page of the tenants with their metadata", async () => {
+    const creds = new ApplicationTokenCredentials("client-id", "common", "secret");
+
+    const tenants = await listTenants(creds);
+
+    expect(tenants).to.deep.equal([
+      {
+        id: "tenant-a",
+        tenantCategory: "Home",
+        countryCode: "US",
+        displayName: "Contoso",
+        domains: ["contoso.onmicrosoft.com", "contoso.com"],
+        defaultDomain: "contoso.com"
+      },
+      { id: "tenant-b", tenantCategory: "ProjectedBy", displayName: "Fabrikam" }
+    ]);
+    expect(await buildTenantList(creds, "2020-01-01")).to.deep.equal(["tenant-a", "tenant-b"]);
+  });
+
+  it("should reject with a ResourceManagerError when the tenants cannot be listed, except in buildTenantList", async () => {
+    const creds = new ApplicationTokenCredentials("client-id", "common", "secret");
+
+    let error: Error | undefined;
+    try {
+      await listTenants(creds, "2016-06-01");
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).to.be.an.instanceof(ResourceManagerError);
+    expect((error as ResourceManagerError).statusCode).to.equal(401);
+    expect(await buildTenantList(creds)).to.deep.equal([]);
+  });
+
+  it("should discover the tenants and their subscriptions", async () => {
+    const creds = new ApplicationTokenCredentials("client-id", "common", "secret");
+
+    const result = await discoverSubscriptions(creds, { namePattern: "prod-*" });
+
+    expect(result.tenants!.map((tenant) => tenant.displayName)).to.deep.equal(["Contoso", "Fabrikam"]);
+    expect(result.subscriptions.map((s) => s.id)).to.deep.equal(["sub-1", "sub-2", "sub-4"]);
+    expect(result.failedTenants).to.deep.equal([]);
+  });
+
+  it("should only list the subscriptions once they are requested when the login skips the discovery", async () => {
+    const authResponse = await withServicePrincipalSecretWithAuthResponse("client-id", "secret", "tenant-b", { skipSubscriptionDiscovery: true });
+
+    expect(authResponse.subscriptions).to.equal(undefined);
+    expect(authResponse.tenants).to.deep.equal([{ id: "tenant-b" }]);
+    expect(maxPendingRequests).to.equal(0);
+
+    const subscriptions = await authResponse.getSubscriptions!();
+
+    expect(subscriptions.map((s) => s.id)).to.deep.equal(["sub-4"]);
+    expect(await authResponse.getSubscriptions!()).to.equal(subscriptions);
+  });
+
+  it("should return the tenant of the service principal with its subscriptions", async () => {
+    const authResponse = await withServicePrincipalSecretWithAuthResponse("client-id", "secret", "tenant-b");
+
+    expect(authResponse.subscriptions!.map((s) => s.id)).to.deep.equal(["sub-4"]);
+    expect(authResponse.tenants).to.deep.equal([{ id: "tenant-b" }]);
+    expect(authResponse.failedTenants).to.deep.equal([]);
+  });
+});
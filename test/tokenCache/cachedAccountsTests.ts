@@ -0,0 +1,97 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { expect } from "chai";
+import { MemoryCache } from "adal-node";
+import { Environment } from "@azure/ms-rest-azure-env";
+import { listCachedAccounts } from "../../lib/tokenCache/cachedAccounts";
+import { DeviceTokenCredentials } from "../../lib/credentials/deviceTokenCredentials";
+import { CredentialUnavailableError } from "../../lib/util/authErrors";
+
+const resource = "https://management.core.windows.net/";
+
+function createEntry(userId: string, authority: string, clientId = "client-id"): any {
+  return {
+    tokenType: "Bearer",
+    expiresIn: 3599,
+    expiresOn: new Date(Date.now() + 3600 * 1000),
+    resource,
+    accessToken: `token-${userId}-${authority}`,
+    refreshToken: `refresh-${userId}`,
+    userId,
+    tenantId: "home-tenant",
+    isMRRT: true,
+    _clientId: clientId,
+    _authority: authority
+  };
+}
+
+function createCache(entries: any[]): Promise<MemoryCache> {
+  const cache = new MemoryCache();
+  return new Promise<MemoryCache>((resolve, reject) => cache.add(entries, (err) => err ? reject(err) : resolve(cache)));
+}
+
+describe("Cached accounts", () => {
+  it("should list the user accounts once per tenant, client and environment", async () => {
+    const cache = await createCache([
+      createEntry("jane@contoso.com", "https://login.microsoftonline.com/common"),
+      createEntry("jane@contoso.com", "https://login.microsoftonline.com/tenant-a"),
+      { ...createEntry("jane@contoso.com", "https://login.microsoftonline.com/tenant-a"), resource: "https://vault.azure.net" },
+      createEntry("bob@contoso.com", "https://login.chinacloudapi.cn/tenant-b", "other-client"),
+      // Service principals have no user and no refresh token.
+      { tokenType: "Bearer", accessToken: "app-token", _clientId: "app", _authority: "https://login.microsoftonline.com/tenant-a" }
+    ]);
+
+    const accounts = await listCachedAccounts(cache);
+
+    expect(accounts.map((account) => [account.username, account.tenantId, account.clientId, account.environment!.name])).to.deep.equal([
+      ["bob@contoso.com", "tenant-b", "other-client", "AzureChinaCloud"],
+      ["jane@contoso.com", "home-tenant", "client-id", "AzureCloud"],
+      ["jane@contoso.com", "tenant-a", "client-id", "AzureCloud"]
+    ]);
+    expect((await listCachedAccounts(cache, { clientId: "other-client" })).length).to.equal(1);
+    expect((await listCachedAccounts(cache, { environment: Environment.AzureCloud })).length).to.equal(2);
+  });
+
+  it("should create credentials that get the tokens of the chosen account from the cache", async () => {
+    const cache = await createCache([
+      createEntry("jane@contoso.com", "https://login.microsoftonline.com/tenant-a"),
+      createEntry("bob@contoso.com", "https://login.microsoftonline.com/tenant-a")
+    ]);
+    const [bob] = await listCachedAccounts(cache);
+
+    const creds = DeviceTokenCredentials.fromCachedAccount(bob, cache);
+    const tokenResponse = await creds.getToken();
+
+    expect(creds.username).to.equal("bob@contoso.com");
+    expect(creds.domain).to.equal("tenant-a");
+    expect(tokenResponse.accessToken).to.equal("token-bob@contoso.com-https://login.microsoftonline.com/tenant-a");
+  });
+
+  it("should use the only cached account when no username is given", async () => {
+    const cache = await createCache([createEntry("jane@contoso.com", "https://login.microsoftonline.com/tenant-a")]);
+
+    const creds = new DeviceTokenCredentials("client-id", "tenant-a", undefined, undefined, Environment.AzureCloud, cache);
+    const tokenResponse = await creds.getToken();
+
+    expect(tokenResponse.userId).to.equal("jane@contoso.com");
+  });
+
+  it("should fail when no username is given and the cache has several accounts or none", async () => {
+    const cache = await createCache([
+      createEntry("jane@contoso.com", "https://login.microsoftonline.com/tenant-a"),
+      createEntry("bob@contoso.com", "https://login.microsoftonline.com/tenant-a")
+    ]);
+
+    for (const [tokenCache, message] of [[cache, /several accounts.*bob@contoso.com, jane@contoso.com/], [new MemoryCache(), /no account/]]) {
+      let error: Error | undefined;
+      try {
+        await new DeviceTokenCredentials("client-id", "tenant-a", undefined, undefined, Environment.AzureCloud, tokenCache as MemoryCache).getToken();
+      } catch (err) {
+        error = err;
+      }
+      expect(error).to.be.an.instanceof(CredentialUnavailableError);
+      expect(error!.message).to.match(message as RegExp);
+    }
+  });
+});
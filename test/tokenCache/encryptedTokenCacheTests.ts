@@ -0,0 +1,111 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { EncryptedTokenCache } from "../../lib/tokenCache/encryptedTokenCache";
+import { createCallbackCacheKeyProvider, createEnvironmentCacheKeyProvider } from "../../lib/tokenCache/cacheKeyProvider";
+import { MemoryCache, TokenCache } from "adal-node";
+import { randomBytes } from "crypto";
+import { expect } from "chai";
+
+describe("Encrypted Token Cache", () => {
+  const key = randomBytes(32);
+
+  function add(cache: TokenCache, entries: any[]): Promise<void> {
+    return new Promise<void>((resolve, reject) => cache.add(entries, (err) => err ? reject(err) : resolve()));
+  }
+
+  function remove(cache: TokenCache, entries: any[]): Promise<void> {
+    return new Promise<void>((resolve, reject) => cache.remove(entries, (err) => err ? reject(err) : resolve()));
+  }
+
+  function find(cache: TokenCache, query: any): Promise<any[]> {
+    return new Promise<any[]>((resolve, reject) => cache.find(query, (err, results) => err ? reject(err) : resolve(results)));
+  }
+
+  function createEntry(userId: string): any {
+    return {
+      tokenType: "Bearer",
+      accessToken: `token-${userId}`,
+      refreshToken: `refresh-${userId}`,
+      userId: userId,
+      expiresOn: new Date("2030-01-01T00:00:00Z")
+    };
+  }
+
+  it("should store the entries encrypted in the inner cache", async () => {
+    const inner = new MemoryCache();
+    const cache = new EncryptedTokenCache(inner, createCallbackCacheKeyProvider(() => key));
+    await add(cache, [createEntry("user1")]);
+
+    const stored = await find(inner, {});
+    expect(stored).to.have.length(1);
+    expect(JSON.stringify(stored)).to.not.contain("token-user1");
+    expect(JSON.stringify(stored)).to.not.contain("refresh-user1");
+  });
+
+  it("should find, deduplicate and remove decrypted entries", async () => {
+    const inner = new MemoryCache();
+    const cache = new EncryptedTokenCache(inner, createCallbackCacheKeyProvider(() => key));
+    await add(cache, [createEntry("user1"), createEntry("user2")]);
+    await add(cache, [createEntry("user1")]);
+
+    const results = await find(cache, { userId: "user1" });
+    expect(results).to.have.length(1);
+    expect(results[0].accessToken).to.equal("token-user1");
+    expect(results[0].expiresOn).to.be.an.instanceof(Date);
+
+    await remove(cache, results);
+    expect(await find(cache, {})).to.have.length(1);
+    expect(await find(inner, {})).to.have.length(1);
+  });
+
+  it("should reset the cache with a warning when an entry was tampered with", async () => {
+    const inner = new MemoryCache();
+    const warnings: string[] = [];
+    const cache = new EncryptedTokenCache(inner, createCallbackCacheKeyProvider(() => key), {
+      onWarning: (message) => warnings.push(message)
+    });
+    await add(cache, [createEntry("user1")]);
+
+    const stored = (await find(inner, {}))[0];
+    const payload = Buffer.from(stored.encryptedEntry.slice(3), "base64");
+    payload[payload.length - 1] ^= 1;
+    stored.encryptedEntry = `v1.${payload.toString("base64")}`;
+
+    expect(await find(cache, {})).to.deep.equal([]);
+    expect(warnings).to.have.length(1);
+    expect(await find(inner, {})).to.deep.equal([]);
+  });
+
+  it("should reset the cache with a warning when the key changed", async () => {
+    const inner = new MemoryCache();
+    await add(new EncryptedTokenCache(inner, createCallbackCacheKeyProvider(() => key)), [createEntry("user1")]);
+
+    const warnings: string[] = [];
+    const cache = new EncryptedTokenCache(inner, createCallbackCacheKeyProvider(() => randomBytes(32)), {
+      onWarning: (message) => warnings.push(message)
+    });
+    expect(await find(cache, {})).to.deep.equal([]);
+    expect(warnings).to.have.length(1);
+  });
+
+  it("should read the key from an environment variable", async () => {
+    process.env["TEST_TOKEN_CACHE_KEY"] = key.toString("base64");
+    try {
+      const providedKey = await createEnvironmentCacheKeyProvider("TEST_TOKEN_CACHE_KEY").getKey();
+      expect(providedKey.equals(key)).to.equal(true);
+    } finally {
+      delete process.env["TEST_TOKEN_CACHE_KEY"];
+    }
+  });
+
+  it("should reject keys of the wrong length", async () => {
+    const cache = new EncryptedTokenCache(new MemoryCache(), createCallbackCacheKeyProvider(() => randomBytes(16)));
+    try {
+      await find(cache, {});
+      expect.fail("find should fail");
+    } catch (err) {
+      expect(err.message).to.contain("32 bytes");
+    }
+  });
+});
@@ -0,0 +1,112 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { FileTokenCache } from "../../lib/tokenCache/fileTokenCache";
+import { expect } from "chai";
+import { existsSync, mkdtempSync, readFileSync, statSync, unlinkSync, rmdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("File Token Cache", () => {
+  let directory: string;
+  let filePath: string;
+
+  function add(cache: FileTokenCache, entries: any[]): Promise<void> {
+    return new Promise<void>((resolve, reject) => cache.add(entries, (err) => err ? reject(err) : resolve()));
+  }
+
+  function remove(cache: FileTokenCache, entries: any[]): Promise<void> {
+    return new Promise<void>((resolve, reject) => cache.remove(entries, (err) => err ? reject(err) : resolve()));
+  }
+
+  function find(cache: FileTokenCache, query: any): Promise<any[]> {
+    return new Promise<any[]>((resolve, reject) => cache.find(query, (err, results) => err ? reject(err) : resolve(results)));
+  }
+
+  function createEntry(userId: string): any {
+    return {
+      tokenType: "Bearer",
+      accessToken: `token-${userId}`,
+      userId: userId,
+      expiresOn: new Date("2030-01-01T00:00:00Z"),
+      _clientId: "client"
+    };
+  }
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "ms-rest-nodeauth-"));
+    filePath = join(directory, "tokens.json");
+  });
+
+  afterEach(() => {
+    if (existsSync(filePath)) {
+      unlinkSync(filePath);
+    }
+    rmdirSync(directory);
+  });
+
+  it("should return no entries when the file does not exist", async () => {
+    const cache = new FileTokenCache(filePath);
+    const results = await find(cache, {});
+    expect(results).to.deep.equal([]);
+  });
+
+  it("should persist entries across instances", async () => {
+    await add(new FileTokenCache(filePath), [createEntry("user1"), createEntry("user2")]);
+
+    const results = await find(new FileTokenCache(filePath), { userId: "user2" });
+    expect(results).to.have.length(1);
+    expect(results[0].accessToken).to.equal("token-user2");
+    expect(results[0].expiresOn).to.be.an.instanceof(Date);
+  });
+
+  it("should not add duplicate entries", async () => {
+    const cache = new FileTokenCache(filePath);
+    await add(cache, [createEntry("user1")]);
+    await add(cache, [createEntry("user1")]);
+
+    const results = await find(cache, {});
+    expect(results).to.have.length(1);
+  });
+
+  it("should remove entries returned by find", async () => {
+    const cache = new FileTokenCache(filePath);
+    await add(cache, [createEntry("user1"), createEntry("user2")]);
+    await remove(cache, await find(cache, { userId: "user1" }));
+
+    const results = await find(cache, {});
+    expect(results).to.have.length(1);
+    expect(results[0].userId).to.equal("user2");
+  });
+
+  it("should keep all entries added concurrently", async () => {
+    const users = ["user1", "user2", "user3", "user4", "user5"];
+    await Promise.all(users.map((user) => add(new FileTokenCache(filePath), [createEntry(user)])));
+
+    const results = await find(new FileTokenCache(filePath), {});
+    expect(results.map((entry) => entry.userId).sort()).to.deep.equal(users);
+    expect(existsSync(`${filePath}.lock`)).to.equal(false);
+  });
+
+  it("should create the missing directories of the file", async () => {
+    const nestedPath = join(directory, "a", "b", "tokens.json");
+    try {
+      await add(new FileTokenCache(nestedPath), [createEntry("user1")]);
+
+      expect(await find(new FileTokenCache(nestedPath), {})).to.have.length(1);
+    } finally {
+      unlinkSync(nestedPath);
+      rmdirSync(join(directory, "a", "b"));
+      rmdirSync(join(directory, "a"));
+    }
+  });
+
+  it("should only allow the current user to access the file", async function () {
+    if (process.platform === "win32") {
+      this.skip();
+    }
+    await add(new FileTokenCache(filePath), [createEntry("user1")]);
+    expect(statSync(filePath).mode & 0o777).to.equal(0o600);
+    expect(JSON.parse(readFileSync(filePath, "utf8"))).to.have.length(1);
+  });
+});
@@ -0,0 +1,59 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import {
+  AuthenticationError,
+  CredentialUnavailableError,
+  InvalidCredentialsError,
+  ManagedIdentityError,
+  createAdalError
+} from "../../lib/util/authErrors";
+import { expect } from "chai";
+
+describe("Authentication errors", () => {
+  it("should be instances of AuthenticationError and Error", () => {
+    const error = new ManagedIdentityError("failed", { statusCode: 500, body: "body" });
+    expect(error).to.be.an.instanceof(ManagedIdentityError);
+    expect(error).to.be.an.instanceof(AuthenticationError);
+    expect(error).to.be.an.instanceof(Error);
+    expect(error.name).to.equal("ManagedIdentityError");
+    expect(error.statusCode).to.equal(500);
+    expect(error.body).to.equal("body");
+  });
+
+  it("should convert rejected credentials returned by Azure Active Directory", () => {
+    const adalError = new Error("Get Token request returned http error: 401 and server response: {}");
+    const response = {
+      error: "invalid_client",
+      error_description: "AADSTS7000215: Invalid client secret is provided.",
+      correlation_id: "00000000-0000-0000-0000-000000000001"
+    };
+
+    const error = createAdalError(adalError, response);
+    expect(error).to.be.an.instanceof(InvalidCredentialsError);
+    expect(error.message).to.equal(response.error_description);
+    expect(error.code).to.equal("invalid_client");
+    expect(error.correlationId).to.equal(response.correlation_id);
+    expect(error.statusCode).to.equal(401);
+    expect(error.cause).to.equal(adalError);
+  });
+
+  it("should convert error responses using the adal property names", () => {
+    const error = createAdalError(undefined, { error: "invalid_grant", errorDescription: "The refresh token has expired." });
+    expect(error).to.be.an.instanceof(InvalidCredentialsError);
+    expect(error.message).to.equal("The refresh token has expired.");
+    expect(error.statusCode).to.be.undefined;
+  });
+
+  it("should report a cache miss as an unavailable credential", () => {
+    const error = createAdalError(new Error("Entry not found in cache."));
+    expect(error).to.be.an.instanceof(CredentialUnavailableError);
+    expect(error.message).to.equal("Entry not found in cache.");
+  });
+
+  it("should fall back to AuthenticationError for other failures", () => {
+    const error = createAdalError(new Error("getaddrinfo ENOTFOUND login.microsoftonline.com"));
+    expect(error.constructor).to.equal(AuthenticationError);
+    expect(error.code).to.be.undefined;
+  });
+});
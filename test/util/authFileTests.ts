@@ -0,0 +1,140 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { expect } from "chai";
+import { parseAuthFile, selectAuthFileProfile } from "../../lib/util/authFile";
+import { AuthFileError, CredentialUnavailableError } from "../../lib/util/authErrors";
+
+const filePath = "/tmp/auth.json";
+
+const sdkAuthFile = {
+  clientId: "client-id",
+  clientSecret: "secret",
+  subscriptionId: "subscription-id",
+  tenantId: "tenant-id",
+  activeDirectoryEndpointUrl: "https://login.microsoftonline.com",
+  resourceManagerEndpointUrl: "https://management.azure.com/",
+  activeDirectoryGraphResourceId: "https://graph.windows.net/",
+  sqlManagementEndpointUrl: "https://management.core.windows.net:8443/",
+  galleryEndpointUrl: "https://gallery.azure.com/",
+  managementEndpointUrl: "https://management.core.windows.net/"
+};
+
+const profilesAuthFile = {
+  defaultProfile: "ci",
+  profiles: {
+    ci: { type: "servicePrincipal", clientId: "client-id", tenantId: "tenant-id", clientSecret: "secret", subscriptionId: "subscription-id" },
+    vm: { type: "managedIdentity", clientId: "identity-client-id", environment: "AzureChinaCloud" },
+    dev: { type: "azureCli" }
+  }
+};
+
+function getIssues(content: any): { path: string, message: string }[] {
+  try {
+    parseAuthFile(typeof content === "string" ? content : JSON.stringify(content), filePath);
+  } catch (err) {
+    expect(err).to.be.an.instanceof(AuthFileError);
+    expect(err).to.be.an.instanceof(CredentialUnavailableError);
+    expect(err.filePath).to.equal(filePath);
+    return err.issues;
+  }
+  throw new Error("parseAuthFile should have failed");
+}
+
+describe("Auth file", () => {
+  const originalProfile = process.env["AZURE_AUTH_PROFILE"];
+
+  afterEach(() => {
+    if (originalProfile === undefined) {
+      delete process.env["AZURE_AUTH_PROFILE"];
+    } else {
+      process.env["AZURE_AUTH_PROFILE"] = originalProfile;
+    }
+  });
+
+  it("should convert the file created by az ad sp create-for-rbac --sdk-auth to a service principal profile", () => {
+    const authFile = parseAuthFile(JSON.stringify(sdkAuthFile), filePath);
+
+    expect(selectAuthFileProfile(authFile, filePath)).to.deep.equal({
+      type: "servicePrincipal",
+      clientId: "client-id",
+      tenantId: "tenant-id",
+      clientSecret: "secret",
+      clientCertificate: undefined,
+      subscriptionId: "subscription-id",
+      environment: {
+        activeDirectoryEndpointUrl: "https://login.microsoftonline.com",
+        resourceManagerEndpointUrl: "https://management.azure.com/",
+        activeDirectoryGraphResourceId: "https://graph.windows.net/",
+        sqlManagementEndpointUrl: "https://management.core.windows.net:8443/",
+        galleryEndpointUrl: "https://gallery.azure.com/",
+        managementEndpointUrl: "https://management.core.windows.net/"
+      }
+    });
+  });
+
+  it("should report every missing property of the sdk-auth format", () => {
+    const issues = getIssues({ clientId: "client-id", tenantId: "tenant-id" });
+
+    expect(issues.map((issue) => issue.path)).to.deep.equal([
+      "subscriptionId",
+      "activeDirectoryEndpointUrl",
+      "resourceManagerEndpointUrl",
+      "activeDirectoryGraphResourceId",
+      "sqlManagementEndpointUrl",
+      ""
+    ]);
+    expect(issues[5].message).to.contain(`"clientSecret" or "clientCertificate"`);
+  });
+
+  it("should select the profile from the option, the environment variable, the default profile or the only profile", () => {
+    const authFile = parseAuthFile(JSON.stringify(profilesAuthFile), filePath);
+
+    expect(selectAuthFileProfile(authFile, filePath).type).to.equal("servicePrincipal");
+    process.env["AZURE_AUTH_PROFILE"] = "dev";
+    expect(selectAuthFileProfile(authFile, filePath).type).to.equal("azureCli");
+    expect(selectAuthFileProfile(authFile, filePath, "vm")).to.deep.equal(profilesAuthFile.profiles.vm);
+    delete process.env["AZURE_AUTH_PROFILE"];
+
+    const single = parseAuthFile(JSON.stringify({ profiles: { dev: { type: "azureCli" } } }), filePath);
+    expect(selectAuthFileProfile(single, filePath).type).to.equal("azureCli");
+  });
+
+  it("should fail when the selected profile does not exist or none is selected", () => {
+    const authFile = parseAuthFile(JSON.stringify({ profiles: profilesAuthFile.profiles }), filePath);
+
+    expect(() => selectAuthFileProfile(authFile, filePath)).to.throw(CredentialUnavailableError, /none is selected.*ci, vm, dev/);
+    expect(() => selectAuthFileProfile(authFile, filePath, "prod")).to.throw(CredentialUnavailableError, /"prod" is not defined/);
+  });
+
+  it("should report the path of each invalid property of the profiles", () => {
+    const issues = getIssues({
+      defaultProfile: "prod",
+      profiles: {
+        ci: { type: "servicePrincipal", clientId: "client-id", clientSecret: "secret", clientCertificate: "cert.pem" },
+        "my.user": { type: "user", username: "user@contoso.com", password: 42, enviroment: "AzureCloud" },
+        vm: { type: "msi" },
+        cloud: { type: "azureCli", environment: "MoonCloud" },
+        custom: { type: "azureCli", environment: { activeDirectoryEndpointUrl: "https://login.contoso.com" } }
+      }
+    });
+
+    expect(issues).to.deep.equal([
+      { path: "defaultProfile", message: `names the profile "prod", which is not defined` },
+      { path: "profiles.ci.tenantId", message: "is required" },
+      { path: "profiles.ci", message: `must have either "clientSecret" or "clientCertificate"` },
+      { path: `profiles["my.user"].password`, message: "must be a non empty string" },
+      { path: `profiles["my.user"].enviroment`, message: "is not a known property of a user profile" },
+      { path: "profiles.vm.type", message: `must be one of "servicePrincipal", "managedIdentity", "user", "deviceCode", "azureCli"` },
+      { path: "profiles.cloud.environment", message: "is not a known Azure environment" },
+      { path: "profiles.custom.environment.resourceManagerEndpointUrl", message: "is required" }
+    ]);
+  });
+
+  it("should report invalid JSON", () => {
+    const issues = getIssues("{ \"profiles\": ");
+
+    expect(issues.length).to.equal(1);
+    expect(issues[0].message).to.contain("not valid JSON");
+  });
+});
@@ -0,0 +1,183 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { chmodSync, mkdtempSync, writeFileSync } from "fs";
+import { createHash } from "crypto";
+import { expect } from "chai";
+import { WebResource } from "@azure/ms-rest-js";
+import { Environment } from "@azure/ms-rest-azure-env";
+import { MemoryCache } from "adal-node";
+import { acquireTokenWithBrowser, addTokenToCache } from "../../lib/util/authorizationCodeFlow";
+import { DeviceTokenCredentials } from "../../lib/credentials/deviceTokenCredentials";
+import { AuthenticationError, CredentialUnavailableError } from "../../lib/util/authErrors";
+import { createHttpClient } from "../fakeHttpClient";
+
+const resource = "https://management.core.windows.net/";
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value as any).toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+const idToken = [
+  base64Url(JSON.stringify({ alg: "none", typ: "JWT" })),
+  base64Url(JSON.stringify({ upn: "user@contoso.com", tid: "tenant-id", oid: "object-id", given_name: "Jane", family_name: "Doe" })),
+  ""
+].join(".");
+
+const tokenResponseBody = {
+  token_type: "Bearer",
+  expires_in: "3599",
+  resource,
+  access_token: "access-token",
+  refresh_token: "refresh-token",
+  id_token: idToken
+};
+
+/**
+ * Plays the part of the browser and of Azure Active Directory, by redirecting to the local server with the given query.
+ */
+function redirectWith(getQuery: (authorizeUrl: URL) => string, urls: URL[]) {
+  return (url: string) => {
+    const authorizeUrl = new URL(url);
+    urls.push(authorizeUrl);
+    http.get(`${authorizeUrl.searchParams.get("redirect_uri")}/?${getQuery(authorizeUrl)}`, (response) => response.resume());
+  };
+}
+
+describe("Authorization code flow", () => {
+  it("should redeem the authorization code with the PKCE verifier and cache the token of the user", async () => {
+    const requests: WebResource[] = [];
+    const urls: URL[] = [];
+
+    const tokenResponse = await acquireTokenWithBrowser({
+      clientId: "client-id",
+      domain: "common",
+      resource,
+      environment: Environment.AzureCloud,
+      openBrowser: redirectWith((url) => `code=the-code&state=${url.searchParams.get("state")}`, urls),
+      httpClient: createHttpClient(requests, { body: tokenResponseBody })
+    });
+
+    const query = urls[0].searchParams;
+    expect(`${urls[0].origin}${urls[0].pathname}`).to.equal("https://login.microsoftonline.com/common/oauth2/authorize");
+    expect(query.get("response_type")).to.equal("code");
+    expect(query.get("client_id")).to.equal("client-id");
+    expect(query.get("resource")).to.equal(resource);
+    expect(query.get("code_challenge_method")).to.equal("S256");
+    expect(query.get("redirect_uri")).to.match(/^http:\/\/localhost:\d+$/);
+
+    expect(requests.length).to.equal(1);
+    expect(requests[0].url).to.equal("https://login.microsoftonline.com/common/oauth2/token");
+    const body = new URLSearchParams(requests[0].body);
+    expect(body.get("grant_type")).to.equal("authorization_code");
+    expect(body.get("code")).to.equal("the-code");
+    expect(body.get("redirect_uri")).to.equal(query.get("redirect_uri"));
+    expect(base64Url(createHash("sha256").update(body.get("code_verifier")!).digest())).to.equal(query.get("code_challenge"));
+
+    expect(tokenResponse.userId).to.equal("user@contoso.com");
+    expect(tokenResponse.tenantId).to.equal("tenant-id");
+    expect(tokenResponse.refreshToken).to.equal("refresh-token");
+
+    const tokenCache = new MemoryCache();
+    const creds = new DeviceTokenCredentials("client-id", "common", tokenResponse.userId, undefined, Environment.AzureCloud, tokenCache);
+    await addTokenToCache(creds.authContext, "client-id", tokenResponse);
+    await addTokenToCache(creds.authContext, "client-id", tokenResponse);
+
+    const cachedToken = await creds.getToken();
+    expect(cachedToken.accessToken).to.equal("access-token");
+    expect((tokenCache as any)._entries.length).to.equal(1);
+  });
+
+  it("should reject a redirect whose state does not match", async () => {
+    const requests: WebResource[] = [];
+    let error: Error | undefined;
+    try {
+      await acquireTokenWithBrowser({
+        clientId: "client-id",
+        domain: "common",
+        resource,
+        environment: Environment.AzureCloud,
+        openBrowser: redirectWith(() => "code=the-code&state=forged", []),
+        httpClient: createHttpClient(requests, { body: tokenResponseBody })
+      });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).to.be.an.instanceof(AuthenticationError);
+    expect(error!.message).to.contain("state");
+    expect(requests.length).to.equal(0);
+  });
+
+  it("should reject the error returned by Azure Active Directory", async () => {
+    let error: any;
+    try {
+      await acquireTokenWithBrowser({
+        clientId: "client-id",
+        domain: "common",
+        resource,
+        environment: Environment.AzureCloud,
+        openBrowser: redirectWith((url) => `error=access_denied&error_description=Denied&state=${url.searchParams.get("state")}`, [])
+      });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).to.be.an.instanceof(AuthenticationError);
+    expect(error.message).to.contain("Denied");
+  });
+
+  describe("with the system browser", () => {
+    const pathVariable = process.env.PATH;
+    let binDirectory: string;
+
+    beforeEach(function (this: Mocha.Context) {
+      if (process.platform === "win32") {
+        this.skip();
+      }
+      binDirectory = mkdtempSync(path.join(os.tmpdir(), "browser-"));
+      process.env.PATH = binDirectory;
+    });
+
+    afterEach(() => {
+      process.env.PATH = pathVariable;
+    });
+
+    it("should open the authorize URL with the command of the platform", async () => {
+      // Plays the part of the browser, like redirectWith().
+      const script = "const url = new (require('url').URL)(process.argv[1]);" +
+        "require('http').get(url.searchParams.get('redirect_uri') + '/?code=the-code&state=' + url.searchParams.get('state'), (r) => r.resume());";
+      for (const command of ["xdg-open", "open"]) {
+        writeFileSync(path.join(binDirectory, command), `#!/bin/sh\nexec "${process.execPath}" -e "${script}" "$1"\n`);
+        chmodSync(path.join(binDirectory, command), 0o755);
+      }
+      const requests: WebResource[] = [];
+
+      const tokenResponse = await acquireTokenWithBrowser({
+        clientId: "client-id",
+        domain: "common",
+        resource,
+        environment: Environment.AzureCloud,
+        httpClient: createHttpClient(requests, { body: tokenResponseBody })
+      });
+
+      expect(tokenResponse.accessToken).to.equal("access-token");
+      expect(requests[0].body).to.contain("code=the-code");
+    });
+
+    it("should reject at once when the browser cannot be opened", async () => {
+      let error: Error | undefined;
+      try {
+        await acquireTokenWithBrowser({ clientId: "client-id", domain: "common", resource, environment: Environment.AzureCloud });
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).to.be.an.instanceof(CredentialUnavailableError);
+      expect(error!.message).to.contain("Failed to open the browser");
+    });
+  });
+});
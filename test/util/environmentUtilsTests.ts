@@ -0,0 +1,117 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { expect } from "chai";
+import { Environment } from "@azure/ms-rest-azure-env";
+import { WebResource } from "@azure/ms-rest-js";
+import { createAuthenticationContext, findEnvironment, getAuthorityUrl, isAdfs, loadEnvironmentFromMetadata } from "../../lib/util/environmentUtils";
+import { ResourceManagerError } from "../../lib/util/authErrors";
+import { createHttpClient } from "../fakeHttpClient";
+
+describe("Environment metadata", () => {
+  it("should register the environment described by the metadata of Azure Stack Hub", async () => {
+    const requests: WebResource[] = [];
+    const httpClient = createHttpClient(requests, {
+      body: {
+        galleryEndpoint: "https://adminportal.local.azurestack.external:30015/",
+        graphEndpoint: "https://graph.windows.net/",
+        portalEndpoint: "https://portal.local.azurestack.external/",
+        authentication: {
+          loginEndpoint: "https://login.microsoftonline.com/",
+          audiences: ["https://management.contoso.onmicrosoft.com/81d5a7b2-5d8b-4b10-b7fa-6fb4fe1a7a2c"]
+        }
+      }
+    });
+
+    const environment = await loadEnvironmentFromMetadata("https://management.local.azurestack.external", { apiVersion: "2015-01-01", httpClient });
+
+    expect(requests.map((request) => request.url)).to.deep.equal(["https://management.local.azurestack.external/metadata/endpoints?api-version=2015-01-01"]);
+    expect(environment.name).to.equal("management.local.azurestack.external");
+    expect(environment.resourceManagerEndpointUrl).to.equal("https://management.local.azurestack.external/");
+    expect(environment.activeDirectoryEndpointUrl).to.equal("https://login.microsoftonline.com/");
+    expect(environment.activeDirectoryResourceId).to.equal("https://management.contoso.onmicrosoft.com/81d5a7b2-5d8b-4b10-b7fa-6fb4fe1a7a2c");
+    expect(environment.activeDirectoryGraphResourceId).to.equal("https://graph.windows.net/");
+    expect(environment.portalUrl).to.equal("https://portal.local.azurestack.external/");
+    expect(findEnvironment("management.local.azurestack.external")).to.equal(environment);
+  });
+
+  it("should pick the cloud of the endpoint from the metadata of every cloud", async () => {
+    const httpClient = createHttpClient([], {
+      body: [
+        {
+          name: "ContosoCloud",
+          resourceManager: "https://management.contoso.example/",
+          portal: "https://portal.contoso.example/",
+          graph: "https://graph.contoso.example/",
+          authentication: { loginEndpoint: "https://login.contoso.example", audiences: ["https://management.core.contoso.example/"] },
+          suffixes: { storage: "core.contoso.example", keyVaultDns: "vault.contoso.example" }
+        }
+      ]
+    });
+
+    const environment = await loadEnvironmentFromMetadata("https://management.contoso.example/", { httpClient });
+
+    expect(environment.name).to.equal("ContosoCloud");
+    expect(environment.activeDirectoryEndpointUrl).to.equal("https://login.contoso.example/");
+    expect(environment.storageEndpointSuffix).to.equal("core.contoso.example");
+    expect(environment.keyVaultDnsSuffix).to.equal(".vault.contoso.example");
+    expect(await loadEnvironmentFromMetadata("https://management.azure.com", { httpClient })).to.equal(Environment.AzureCloud);
+  });
+
+  it("should disable the authority validation of the environments using ADFS", async () => {
+    const httpClient = createHttpClient([], {
+      body: {
+        portalEndpoint: "https://portal.local.azurestack.external/",
+        authentication: {
+          loginEndpoint: "https://adfs.local.azurestack.external/adfs",
+          audiences: ["https://management.adfs.azurestack.local/5f3c3a5b-2a8e-4c11-9c55-0a9b2f4dbf36"]
+        }
+      }
+    });
+
+    const environment = await loadEnvironmentFromMetadata("https://management.adfs.azurestack.external", { apiVersion: "2015-01-01", httpClient });
+
+    expect(environment.activeDirectoryEndpointUrl).to.equal("https://adfs.local.azurestack.external/adfs/");
+    expect(environment.validateAuthority).to.equal(false);
+    expect(isAdfs(environment)).to.equal(true);
+  });
+
+  it("should reject with a ResourceManagerError when the metadata cannot be read", async () => {
+    let error: Error | undefined;
+    try {
+      await loadEnvironmentFromMetadata("https://management.unknown.example", { httpClient: createHttpClient([], { status: 404, body: { error: { code: "NotFound" } } }) });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).to.be.an.instanceof(ResourceManagerError);
+    expect((error as ResourceManagerError).statusCode).to.equal(404);
+  });
+});
+
+describe("ADFS authority", () => {
+  const adfsEnvironment = {
+    ...Environment.AzureCloud,
+    name: "AzureStackAdfs",
+    activeDirectoryEndpointUrl: "https://adfs.local.azurestack.external/adfs/",
+    validateAuthority: true
+  } as Environment;
+
+  it("should build the single authority of ADFS without validating it", () => {
+    const context = createAuthenticationContext(adfsEnvironment, "common");
+
+    expect(getAuthorityUrl(adfsEnvironment, "adfs")).to.equal("https://adfs.local.azurestack.external/adfs");
+    expect(getAuthorityUrl({ ...adfsEnvironment, activeDirectoryEndpointUrl: "https://adfs.contoso.example/" } as Environment, "ADFS"))
+      .to.equal("https://adfs.contoso.example/adfs");
+    expect(context.authority).to.equal("https://adfs.local.azurestack.external/adfs");
+    expect((context as any)._authority._validated).to.equal(true);
+  });
+
+  it("should keep the tenant in the authority of Azure Active Directory", () => {
+    const context = createAuthenticationContext(Environment.AzureCloud, "tenant-id");
+
+    expect(isAdfs(Environment.AzureCloud, "tenant-id")).to.equal(false);
+    expect(context.authority).to.equal("https://login.microsoftonline.com/tenant-id");
+    expect((context as any)._authority._validated).to.equal(false);
+  });
+});
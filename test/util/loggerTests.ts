@@ -0,0 +1,71 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { expect } from "chai";
+import { AuthenticationContext } from "adal-node";
+import { ApplicationTokenCredentials } from "../../lib/credentials/applicationTokenCredentials";
+import { AuthLogEntry, AuthLogger, getLogger, logEvent, setLogger } from "../../lib/util/logger";
+
+function createLogger(entries: AuthLogEntry[], level?: AuthLogger["level"]): AuthLogger {
+  return { level, log: (entry) => entries.push(entry) };
+}
+
+describe("Logger", () => {
+  const previousLogger = getLogger();
+
+  afterEach(() => {
+    setLogger(previousLogger);
+  });
+
+  it("should filter the entries by level and fall back to the logger set with setLogger", () => {
+    const ownEntries: AuthLogEntry[] = [];
+    const defaultEntries: AuthLogEntry[] = [];
+    setLogger(createLogger(defaultEntries, "warning"));
+
+    logEvent(createLogger(ownEntries), "verbose", "token.cache", "Not logged");
+    logEvent(createLogger(ownEntries), "info", "token.network", "Logged", { accessToken: "token" });
+    logEvent(undefined, "info", "token.network", "Not logged");
+    logEvent(undefined, "warning", "tokenCache.reset", "Logged");
+    logEvent({ log: () => { throw new Error("Broken logger"); } }, "error", "token.network", "Ignored");
+
+    expect(ownEntries).to.deep.equal([{ level: "info", event: "token.network", message: "Logged", details: { accessToken: "[REDACTED]" } }]);
+    expect(defaultEntries.map((entry) => entry.event)).to.deep.equal(["tokenCache.reset"]);
+  });
+
+  describe("of the credentials", () => {
+    const prototype = AuthenticationContext.prototype;
+    const { acquireToken, acquireTokenWithClientCredentials } = prototype;
+    let cachedToken: any;
+
+    beforeEach(() => {
+      cachedToken = undefined;
+      prototype.acquireToken = function (_resource, _userId, _clientId, callback) {
+        setImmediate(() => cachedToken
+          ? callback(undefined as any, cachedToken)
+          : callback(new Error("Entry not found in cache."), { error: "cache_miss", errorDescription: "Entry not found in cache." } as any));
+      };
+      prototype.acquireTokenWithClientCredentials = function (resource, _clientId, _secret, callback) {
+        cachedToken = { tokenType: "Bearer", accessToken: "token", expiresIn: 3599, expiresOn: new Date(), resource };
+        setImmediate(() => callback(undefined as any, cachedToken));
+      };
+    });
+
+    afterEach(() => {
+      prototype.acquireToken = acquireToken;
+      prototype.acquireTokenWithClientCredentials = acquireTokenWithClientCredentials;
+    });
+
+    it("should log where the tokens come from, without the tokens", async () => {
+      const entries: AuthLogEntry[] = [];
+      const creds = new ApplicationTokenCredentials("client-id", "tenant-id", "secret");
+      creds.logger = createLogger(entries, "verbose");
+
+      await creds.getToken();
+      await creds.getToken();
+
+      expect(entries.map((entry) => [entry.level, entry.event])).to.deep.equal([["info", "token.network"], ["verbose", "token.cache"]]);
+      expect(entries[0].details).to.deep.equal({ clientId: "client-id", domain: "tenant-id", resource: "https://management.core.windows.net/" });
+      expect(JSON.stringify(entries)).not.to.contain("secret");
+    });
+  });
+});
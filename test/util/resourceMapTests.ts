@@ -0,0 +1,43 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License. See License.txt in the project root for license information.
+
+import { expect } from "chai";
+import { Environment } from "@azure/ms-rest-azure-env";
+import { createHostToResourceMap, getResourceForUrl, getResourceFromScopes, getScopeFromResource } from "../../lib/util/resourceMap";
+
+describe("Host to resource map", () => {
+  const map = createHostToResourceMap();
+
+  it("should map the hosts of the Azure services to their resources", () => {
+    expect(getResourceForUrl("https://management.azure.com/subscriptions?api-version=2016-06-01", map)).to.equal("https://management.core.windows.net/");
+    expect(getResourceForUrl("https://graph.windows.net/tenant/users", map)).to.equal("https://graph.windows.net/");
+    expect(getResourceForUrl("https://myvault.vault.azure.net/secrets/secret", map)).to.equal("https://vault.azure.net");
+    expect(getResourceForUrl("https://account.blob.core.windows.net/container", map)).to.equal("https://storage.azure.com/");
+    expect(getResourceForUrl("https://server.database.windows.net", map)).to.equal("https://database.windows.net/");
+  });
+
+  it("should use the endpoints of the given environment", () => {
+    const chinaMap = createHostToResourceMap(Environment.ChinaCloud);
+    expect(getResourceForUrl("https://management.chinacloudapi.cn/subscriptions", chinaMap)).to.equal(Environment.ChinaCloud.activeDirectoryResourceId);
+    expect(getResourceForUrl("https://myvault.vault.azure.cn/secrets/secret", chinaMap)).to.equal("https://vault.azure.cn");
+  });
+
+  it("should prefer host names and longer suffixes", () => {
+    const customMap = { ".example.com": "https://example.com", ".api.example.com": "https://api.example.com", "www.api.example.com": "https://www" };
+    expect(getResourceForUrl("https://www.api.example.com/path", customMap)).to.equal("https://www");
+    expect(getResourceForUrl("https://eu.api.example.com/path", customMap)).to.equal("https://api.example.com");
+    expect(getResourceForUrl("https://other.example.com:8443/path", customMap)).to.equal("https://example.com");
+  });
+
+  it("should return undefined for unknown hosts or without a map", () => {
+    expect(getResourceForUrl("https://example.org", map)).to.equal(undefined);
+    expect(getResourceForUrl("https://management.azure.com", undefined)).to.equal(undefined);
+  });
+
+  it("should convert scopes to resources and back", () => {
+    expect(getResourceFromScopes("https://management.azure.com/.default")).to.equal("https://management.azure.com");
+    expect(getResourceFromScopes(["https://graph.windows.net/User.Read", "https://graph.windows.net/.default"])).to.equal("https://graph.windows.net");
+    expect(getResourceFromScopes("api://my-app/.default")).to.equal("api://my-app");
+    expect(getScopeFromResource("https://management.azure.com/")).to.equal("https://management.azure.com/.default");
+  });
+});